@@ -1,14 +1,49 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { GameState, Score } from './types';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { GameMode, PlayerNames, Score } from './types';
 import Game from './components/Game';
+import { SimulationConfig } from './game/types';
+import { AIPersonality } from './game/ai/types';
+import { AI_CONTROLLERS, getAIController } from './game/ai/controllers';
+import { createSeed } from './game/rng';
+import {
+  GameSettings,
+  SETTING_LABELS,
+  createMatchConfig,
+  hasSettingsParams,
+  settingsFromParams,
+} from './game/settings';
+import { loadSettings, saveSettings } from './utils/settingsStorage';
+import { MatchRecorder, MatchRecording, parseRecording } from './game/replay';
+import { downloadJson } from './utils/files';
+import { BUNDLED_LEVELS, CLASSIC_LEVEL } from './levels';
+import { LevelDefinition } from './game/levels';
+import { ActiveEffect, POWER_UPS } from './game/powerups';
+import { MULTI_BALL_COUNT } from './game/balls';
+import { MatchState, describeRules } from './game/rules';
+import { MatchStats } from './game/stats';
+import { createMatchResult } from './game/history';
+import { saveMatchResult } from './utils/historyStorage';
+import { InputManager } from './input/InputManager';
+import { AudioEngine, AudioSettings } from './audio/AudioEngine';
+import { connectGameSounds } from './audio/gameSounds';
+import { loadAudioSettings, saveAudioSettings } from './utils/audioStorage';
+import { DisplaySettings } from './display/settings';
+import { PADDLE_MARK_SYMBOLS, THEMES } from './display/themes';
+import { applyColorPalette } from './display/palettes';
+import { loadDisplaySettings, saveDisplaySettings } from './utils/displayStorage';
+import { FrameStats } from './components/frameTimer';
+import { GameEventBus } from './game/events';
+import { connectAnnouncements } from './game/announcements';
+import { MatchFlowAction, isInMatch } from './game/matchFlow';
+import { OnlineClient, OnlineStatus } from './net/OnlineClient';
+import { PlayerFlowAction } from './net/protocol';
+import { DEFAULT_BINDINGS, InputAction, InputBindings, formatKeyCode } from './input/bindings';
 import { 
-  WINNING_SCORE, 
   GAME_WIDTH, 
   GAME_HEIGHT, 
-  INITIAL_BALL_SPEED, 
-  DEFAULT_SPEED_INCREASE, 
-  PADDLE_WIDTH, 
-  PADDLE_HEIGHT,
+  MIN_INITIAL_BALL_SPEED,
+  MAX_INITIAL_BALL_SPEED,
+  MAX_SPEED_INCREASE,
   MIN_PADDLE_WIDTH,
   MAX_PADDLE_WIDTH,
   MIN_PADDLE_HEIGHT,
@@ -18,109 +53,545 @@ import { Card } from './components/ui/Card';
 import { Button } from './components/ui/Button';
 import { Slider } from './components/ui/Slider';
 import { Label } from './components/ui/Label';
+import { Input } from './components/ui/Input';
+import { Select } from './components/ui/Select';
+import { Switch } from './components/ui/Switch';
+import { KeyBindingsEditor } from './components/KeyBindingsEditor';
+import { LevelEditor } from './components/LevelEditor';
+import { MatchRulesEditor } from './components/MatchRulesEditor';
+import { MatchSummary } from './components/MatchSummary';
+import { MatchHistory } from './components/MatchHistory';
+import { SettingsPresets } from './components/SettingsPresets';
+import { AudioSettingsEditor } from './components/AudioSettingsEditor';
+import { DisplaySettingsEditor } from './components/DisplaySettingsEditor';
+import { OnlineLobby } from './components/OnlineLobby';
+import { useGameScale } from './hooks/useGameScale';
+import { useMatchFlow } from './hooks/useMatchFlow';
+import { useReducedMotion } from './hooks/useReducedMotion';
+
+const AI_MATCH_NAMES: PlayerNames = { player: 'You', ai: 'AI' };
+const DEFAULT_ONLINE_NAMES: PlayerNames = { player: 'Host', ai: 'Guest' };
+const DEFAULT_LOCAL_NAMES: PlayerNames = { player: 'Player 1', ai: 'Player 2' };
+
+const AI_PERSONALITY_OPTIONS = Object.values(AI_CONTROLLERS).map(controller => ({
+  value: controller.id,
+  label: controller.name,
+}));
+
+// Levels that failed validation stay selectable so their error can be shown.
+const LEVEL_OPTIONS = BUNDLED_LEVELS.map(({ id, level }) => ({
+  value: id,
+  label: level ? level.name : `${id} (invalid)`,
+}));
+
+const GAME_MODE_OPTIONS = [
+  { value: String(GameMode.VsAI), label: 'Single Player (vs AI)' },
+  { value: String(GameMode.LocalVersus), label: 'Two Players (same machine)' },
+];
+
+// Saved settings, overridden by any settings carried in the page's link.
+const readStartupSettings = () => {
+  const saved = loadSettings();
+  const params = new URLSearchParams(window.location.search);
+  if (!hasSettingsParams(params)) return { settings: saved, notice: null };
+  const { settings, rejected } = settingsFromParams(params, saved);
+  const notice = rejected.length
+    ? `Settings loaded from the link, except ${rejected.map(key => SETTING_LABELS[key]).join(', ')} (out of range).`
+    : 'Settings loaded from the link.';
+  return { settings, notice };
+};
+
+// Flow actions an online match sends to the server instead of applying locally.
+const PLAYER_FLOW_ACTIONS = new Set<MatchFlowAction['type']>(['pause', 'resume', 'togglePause']);
 
 const App: React.FC = () => {
-  const [gameState, setGameState] = useState<GameState>(GameState.Start);
+  // Online play: the client for the current room, if any, and its connection status
+  const [online, setOnline] = useState<OnlineClient | null>(null);
+  const [onlineStatus, setOnlineStatus] = useState<OnlineStatus | null>(null);
+  // Online, the match server runs the countdown and intermission timers.
+  const [flow, dispatch] = useMatchFlow(!online);
+  // Points in the current set.
   const [score, setScore] = useState<Score>({ player: 0, ai: 0 });
-  const [winner, setWinner] = useState<string | null>(null);
-  const [isPaused, setIsPaused] = useState(false);
-
-  // Gameplay settings
-  const [initialBallSpeed, setInitialBallSpeed] = useState(INITIAL_BALL_SPEED);
-  const [speedIncrease, setSpeedIncrease] = useState(DEFAULT_SPEED_INCREASE);
-  const [paddleWidth, setPaddleWidth] = useState(PADDLE_WIDTH);
-  const [paddleHeight, setPaddleHeight] = useState(PADDLE_HEIGHT);
-
-  const handleScoreUpdate = useCallback((scorer: 'player' | 'ai') => {
-    setScore(prevScore => ({
-      ...prevScore,
-      [scorer]: prevScore[scorer] + 1
-    }));
-  }, []);
+  // Sets, sudden death and the winner, as last reported by the simulation.
+  const [matchProgress, setMatchProgress] = useState<MatchState | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const [matchStats, setMatchStats] = useState<MatchStats | null>(null);
+  const winner = flow.phase === 'matchOver' ? flow.winner : null;
+  const isPaused = flow.phase === 'paused';
+
+  // Gameplay settings, remembered between visits
+  const [startup] = useState(readStartupSettings);
+  const [settings, setSettings] = useState<GameSettings>(startup.settings);
+  const [settingsNotice, setSettingsNotice] = useState(startup.notice);
+  const {
+    mode: gameMode,
+    ai,
+    initialBallSpeed,
+    speedIncrease,
+    paddleWidth,
+    paddleHeight,
+    levelId,
+    powerUps,
+    multiBall,
+    rules,
+  } = settings;
+  const updateSettings = (changes: Partial<GameSettings>) => setSettings(current => ({ ...current, ...changes }));
+  const [localNames, setLocalNames] = useState<PlayerNames>(DEFAULT_LOCAL_NAMES);
+  // Effective difficulty during a match, shown in the HUD while adaptive difficulty is on.
+  const [currentAiDifficulty, setCurrentAiDifficulty] = useState(ai.difficulty);
+  const [showRules, setShowRules] = useState(false);
+  const [showPresets, setShowPresets] = useState(false);
+  // Effects currently running in the match, shown next to each side's score.
+  const [activePowerUps, setActivePowerUps] = useState<ActiveEffect[]>([]);
+
+  // Level editor: the draft survives test-plays, and Game Over offers a way back to it.
+  const [editorLevel, setEditorLevel] = useState<LevelDefinition | null>(null);
+  const [isTestPlay, setIsTestPlay] = useState(false);
+
+  // Match recording and replays
+  const [matchConfig, setMatchConfig] = useState<SimulationConfig | null>(null);
+  const [replay, setReplay] = useState<MatchRecording | null>(null);
+  const [lastRecording, setLastRecording] = useState<MatchRecording | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const recorderRef = useRef<MatchRecorder | null>(null);
+
+  // Layout
+  const scale = useGameScale();
+
+  // Controls
+  const [input] = useState(() => new InputManager());
+  const [bindings, setBindings] = useState<InputBindings>(DEFAULT_BINDINGS);
+  const [showControls, setShowControls] = useState(false);
+
+  // Sound: one engine for the whole app, with its settings remembered between visits
+  const [audio] = useState(() => new AudioEngine());
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(loadAudioSettings);
+  const [showSound, setShowSound] = useState(false);
+
+  // Display: particle quality and the frame-time readout, also remembered
+  const [displaySettings, setDisplaySettings] = useState<DisplaySettings>(loadDisplaySettings);
+  const [showDisplay, setShowDisplay] = useState(false);
+  const [frameStats, setFrameStats] = useState<FrameStats | null>(null);
+  // The last reading with particles off, shown beside the live one to see what the effects cost.
+  const [frameBaseline, setFrameBaseline] = useState<FrameStats | null>(null);
+  const theme = applyColorPalette(THEMES[displaySettings.theme], displaySettings.colorPalette);
+  const reducedMotion = useReducedMotion(displaySettings.motion);
+  // Big overlay text glows in the theme's glow color, if it has one.
+  const textGlow = (color = theme.ui.glow) => (theme.ui.glow ? { textShadow: `0 0 20px ${color}` } : {});
+
+  // Names follow the match being shown, which may be a replay of a different mode.
+  const isLocalMatch = (matchConfig?.mode ?? gameMode) === GameMode.LocalVersus;
+  const onlineNames: PlayerNames = {
+    player: onlineStatus?.players.player?.name ?? DEFAULT_ONLINE_NAMES.player,
+    ai: onlineStatus?.players.ai?.name ?? DEFAULT_ONLINE_NAMES.ai,
+  };
+  const playerNames = online ? onlineNames : isLocalMatch ? localNames : AI_MATCH_NAMES;
+
+  // Everything that happens in a match is published here; the HUD and the sound subscribe.
+  const [gameEvents] = useState(() => new GameEventBus());
+
+  useEffect(() => gameEvents.on('scoreChange', ({ score, match }) => {
+    setScore(score);
+    setMatchProgress(match);
+  }), [gameEvents]);
 
-  // useEffect to handle the side effect of a score change
+  // Screen readers hear points, sets, pauses and the result through a live region.
+  const [announcement, setAnnouncement] = useState('');
+  const playerNamesRef = useRef(playerNames);
+  playerNamesRef.current = playerNames;
+
+  useEffect(
+    () => connectAnnouncements(gameEvents, () => playerNamesRef.current, setAnnouncement),
+    [gameEvents],
+  );
+
+  // The simulation decides the match under its rules and Game reports it through the flow. Live
+  // matches go into the history; replays and level test-plays do not.
   useEffect(() => {
-    if (score.player >= WINNING_SCORE) {
-      setWinner('You');
-      setIsPaused(false);
-      setGameState(GameState.GameOver);
-    } else if (score.ai >= WINNING_SCORE) {
-      setWinner('AI');
-      setIsPaused(false);
-      setGameState(GameState.GameOver);
+    if (flow.phase === 'matchOver' && recorderRef.current) {
+      setLastRecording(recorderRef.current.finish());
+      recorderRef.current = null;
+      if (!isTestPlay && matchConfig && matchProgress && matchStats) {
+        saveMatchResult(createMatchResult(matchConfig, playerNames, matchProgress, matchStats))
+          .catch(e => console.error('Could not save the match to the history.', e));
+      }
     }
-  }, [score]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [flow.phase]);
+
+  // The input layer lives for the whole app, so gamepads keep being polled while the game is paused.
+  useEffect(() => {
+    input.start();
+    return () => input.stop();
+  }, [input]);
+
+  useEffect(() => {
+    input.setBindings(bindings);
+  }, [bindings]);
+
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  // Settings from a link are now saved; drop them from the address bar so a reload does not
+  // overwrite later changes.
+  useEffect(() => {
+    if (startup.notice) window.history.replaceState(null, '', window.location.pathname);
+  }, [startup]);
+
+  // Online, pausing and resuming are the server's call: it pauses both players. Everything else
+  // the flow does online comes from the server too.
+  const handleFlowAction = useCallback((action: MatchFlowAction) => {
+    if (!online) {
+      dispatch(action);
+    } else if (PLAYER_FLOW_ACTIONS.has(action.type)) {
+      online.sendFlowAction(action.type as PlayerFlowAction);
+    }
+  }, [online, dispatch]);
+
+  // Pause toggles come from the input layer (keyboard or gamepad Start button); the flow ignores
+  // them outside a match.
+  useEffect(() => {
+    return input.onAction('pause', () => handleFlowAction({ type: 'togglePause' }));
+  }, [input, handleFlowAction]);
+
+  useEffect(() => {
+    if (!online) return;
+    const unsubscribes = [
+      online.on('status', setOnlineStatus),
+      online.on('match', config => {
+        resetGame();
+        recorderRef.current = null;
+        setReplay(null);
+        setIsTestPlay(false);
+        setMatchConfig(config);
+      }),
+      online.on('flow', onlineFlow => dispatch({ type: 'sync', flow: onlineFlow })),
+      online.on('stats', setMatchStats),
+    ];
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [online, dispatch]);
+
+  // Without a connection the match freezes on this side until the server has us back; it then
+  // sends its own flow.
+  useEffect(() => {
+    if (online && onlineStatus?.connection !== 'open' && isInMatch(flow)) dispatch({ type: 'pause' });
+  }, [online, onlineStatus, flow, dispatch]);
 
-  // useEffect for handling pause keydown events
+  const toggleMute = useCallback(() => setAudioSettings(current => ({ ...current, muted: !current.muted })), []);
+
+  useEffect(() => input.onAction('mute', toggleMute), [input, toggleMute]);
+
+  useEffect(() => {
+    audio.configure(audioSettings);
+    saveAudioSettings(audioSettings);
+  }, [audio, audioSettings]);
+
+  useEffect(() => connectGameSounds(gameEvents, audio), [gameEvents, audio]);
+
+  useEffect(() => saveDisplaySettings(displaySettings), [displaySettings]);
+
+  // Stops CSS animations and transitions everywhere (see index.css).
   useEffect(() => {
-    const handleKeyDown = (event: KeyboardEvent) => {
-        if (gameState === GameState.Playing && (event.key === 'Escape' || event.key.toLowerCase() === 'p')) {
-            setIsPaused(prev => !prev);
-        }
-    };
-    window.addEventListener('keydown', handleKeyDown);
-    return () => {
-        window.removeEventListener('keydown', handleKeyDown);
-    };
-  }, [gameState]);
+    document.documentElement.classList.toggle('reduce-motion', reducedMotion);
+  }, [reducedMotion]);
+
+  useEffect(
+    () => input.onAction('frameStats', () =>
+      setDisplaySettings(current => ({ ...current, showFrameStats: !current.showFrameStats })),
+    ),
+    [input],
+  );
+
+  // A stale reading would be misleading when the readout comes back.
+  useEffect(() => {
+    if (displaySettings.showFrameStats) return;
+    setFrameStats(null);
+    setFrameBaseline(null);
+  }, [displaySettings.showFrameStats]);
+
+  const handleFrameStats = useCallback((stats: FrameStats) => {
+    setFrameStats(stats);
+    if (stats.quality === 'off') setFrameBaseline(stats);
+  }, []);
+
+  // Music plays while a match is on screen, and stops for the pause screen and the menus.
+  useEffect(() => {
+    if (isInMatch(flow) && flow.phase !== 'paused') {
+      audio.startMusic();
+    } else {
+      audio.stopMusic();
+    }
+  }, [audio, flow]);
 
 
   const resetGame = () => {
     setScore({ player: 0, ai: 0 });
-    setWinner(null);
+    setMatchProgress(null);
+    setSecondsLeft(null);
+    setMatchStats(null);
+    setReplayError(null);
+    setActivePowerUps([]);
   };
   
-  const handleStartGame = () => {
+  const selectedLevel = BUNDLED_LEVELS.find(entry => entry.id === levelId) ?? BUNDLED_LEVELS[0];
+
+  const startMatch = (level = selectedLevel.level, mode = gameMode) => {
+    if (!level) return;
+    const config = createMatchConfig(settings, level, createSeed(), mode);
     resetGame();
-    setIsPaused(false);
-    setGameState(GameState.Playing);
+    setCurrentAiDifficulty(config.ai.difficulty);
+    recorderRef.current = new MatchRecorder(config);
+    setMatchConfig(config);
+    setReplay(null);
+    dispatch({ type: 'startMatch' });
+  };
+
+  const handleStartGame = () => {
+    setIsTestPlay(false);
+    startMatch();
   };
 
   const handlePlayAgain = () => {
+    if (isTestPlay && editorLevel) {
+      startMatch(editorLevel, GameMode.VsAI);
+    } else {
+      startMatch();
+    }
+  };
+
+  const handleOpenEditor = () => {
+    // Start from the selected layout the first time, then keep working on the same draft.
+    setEditorLevel(draft => draft ?? structuredClone(selectedLevel.level ?? CLASSIC_LEVEL));
     resetGame();
-    setIsPaused(false);
-    setGameState(GameState.Playing);
+    recorderRef.current = null;
+    setIsTestPlay(false);
+    dispatch({ type: 'openEditor' });
+  };
+
+  // Test-plays always pit the layout against the AI with the current settings.
+  const handleTestPlay = () => {
+    if (!editorLevel) return;
+    setIsTestPlay(true);
+    startMatch(editorLevel, GameMode.VsAI);
   };
   
+  // Leaves the online room, if any; a match in progress is forfeited.
+  const leaveOnline = () => {
+    online?.leave();
+    setOnline(null);
+    setOnlineStatus(null);
+  };
+
   const handleGoToMenu = () => {
+    leaveOnline();
+    resetGame();
+    recorderRef.current = null;
+    setReplay(null);
+    dispatch({ type: 'openMenu' });
+  };
+
+  const handleOpenHistory = () => {
+    resetGame();
+    recorderRef.current = null;
+    setReplay(null);
+    dispatch({ type: 'openHistory' });
+  };
+
+  const handleOpenLobby = () => {
+    resetGame();
+    recorderRef.current = null;
+    setReplay(null);
+    dispatch({ type: 'openLobby' });
+  };
+
+  // Each room gets a fresh client; the old one, if any, leaves its room first.
+  const connectOnline = (serverUrl: string, connect: (client: OnlineClient) => void) => {
+    online?.leave();
+    const client = new OnlineClient(serverUrl);
+    setOnline(client);
+    setOnlineStatus(client.getStatus());
+    connect(client);
+  };
+
+  const handleWatchReplay = (recording: MatchRecording) => {
     resetGame();
-    setIsPaused(false);
-    setGameState(GameState.Start);
+    recorderRef.current = null;
+    setCurrentAiDifficulty(recording.config.ai.difficulty);
+    setMatchConfig(recording.config);
+    setReplay(recording);
+    dispatch({ type: 'startMatch' });
   };
 
+  const handleSaveReplay = () => {
+    if (lastRecording) {
+      downloadJson(`ai-pong-replay-${lastRecording.config.seed}.json`, lastRecording);
+    }
+  };
+
+  const handleLoadReplay = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const recording = parseRecording(await file.text());
+      setLastRecording(recording);
+      handleWatchReplay(recording);
+    } catch (e) {
+      setReplayError(e instanceof Error ? e.message : 'Could not read replay file.');
+    }
+  };
+
+  const winnerName = winner ? playerNames[winner].trim() || DEFAULT_LOCAL_NAMES[winner] : '';
+  const isOwnWin = online ? winner === onlineStatus?.seat : !isLocalMatch && winner === 'player';
+  const winnerText = isOwnWin ? 'You Win!' : `${winnerName} Wins!`;
+
+  useEffect(() => {
+    if (flow.phase === 'paused') setAnnouncement('Paused.');
+    if (flow.phase === 'matchOver') setAnnouncement(`Game over. ${winnerText}`);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [flow.phase]);
+  const onlineOpponent = onlineStatus?.seat ? onlineStatus.players[onlineStatus.seat === 'player' ? 'ai' : 'player'] : null;
+
+  const keyPair = (left: InputAction, right: InputAction) =>
+    `${bindings[left].map(formatKeyCode).join('/')} ${bindings[right].map(formatKeyCode).join('/')}`;
+
   const renderContent = () => {
-    switch (gameState) {
-      case GameState.Start:
+    switch (flow.phase) {
+      case 'menu':
         return (
-          <Card className="w-96">
-            <h1 className="text-5xl font-bold text-cyan-400 tracking-wider">AI PONG</h1>
-            <p className="text-slate-400 mt-2">An air-hockey style game against an AI.</p>
-            
+          <Card autoFocus aria-labelledby="start-title" className="w-full max-w-sm max-h-full overflow-y-auto">
+            <h1 id="start-title" className="text-5xl font-bold text-cyan-400 tracking-wider">AI PONG</h1>
+            <p className="text-slate-400 mt-2">An air-hockey style game against an AI or a friend.</p>
+            {settingsNotice && (
+              <p className="text-sm text-cyan-400 mt-2">
+                {settingsNotice}{' '}
+                <button type="button" onClick={() => setSettingsNotice(null)} className="text-slate-400 hover:text-white">Dismiss</button>
+              </p>
+            )}
+
             <div className="w-full mt-8 space-y-6">
+              <div className="space-y-2 text-left">
+                <Label htmlFor="game-mode">Mode</Label>
+                <Select
+                  id="game-mode"
+                  options={GAME_MODE_OPTIONS}
+                  value={String(gameMode)}
+                  onValueChange={(value) => updateSettings({ mode: Number(value) as GameMode })}
+                />
+              </div>
+              <div className="space-y-2 text-left">
+                <Label htmlFor="level">Level</Label>
+                <Select
+                  id="level"
+                  options={LEVEL_OPTIONS}
+                  value={selectedLevel.id}
+                  onValueChange={(value) => updateSettings({ levelId: value })}
+                />
+                {selectedLevel.level ? (
+                  <p className="text-xs text-slate-400">{selectedLevel.level.description}</p>
+                ) : (
+                  <p className="text-xs text-red-400">{selectedLevel.error}</p>
+                )}
+              </div>
+              <div className="flex items-center justify-between text-left">
+                <Label htmlFor="power-ups">Power-ups</Label>
+                <Switch
+                  id="power-ups"
+                  checked={powerUps}
+                  onCheckedChange={(value) => updateSettings({ powerUps: value })}
+                />
+              </div>
+              <div className="flex items-center justify-between text-left">
+                <Label htmlFor="multi-ball">Multi-ball ({MULTI_BALL_COUNT} balls per serve)</Label>
+                <Switch
+                  id="multi-ball"
+                  checked={multiBall}
+                  onCheckedChange={(value) => updateSettings({ multiBall: value })}
+                />
+              </div>
+              {gameMode === GameMode.LocalVersus && (
+                <div className="flex space-x-4 text-left">
+                  <div className="space-y-2 flex-1">
+                    <Label htmlFor="player-two-name">Top (keys / 2nd gamepad)</Label>
+                    <Input
+                      id="player-two-name"
+                      maxLength={16}
+                      value={localNames.ai}
+                      onChange={(event) => setLocalNames(names => ({ ...names, ai: event.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-2 flex-1">
+                    <Label htmlFor="player-one-name">Bottom (mouse)</Label>
+                    <Input
+                      id="player-one-name"
+                      maxLength={16}
+                      value={localNames.player}
+                      onChange={(event) => setLocalNames(names => ({ ...names, player: event.target.value }))}
+                    />
+                  </div>
+                </div>
+              )}
+              {gameMode === GameMode.VsAI && (
+                <>
+                  <div className="space-y-2 text-left">
+                    <Label htmlFor="ai-personality">Opponent</Label>
+                    <Select
+                      id="ai-personality"
+                      options={AI_PERSONALITY_OPTIONS}
+                      value={ai.personality}
+                      onValueChange={(value) => updateSettings({ ai: { ...ai, personality: value as AIPersonality } })}
+                    />
+                    <p className="text-xs text-slate-400">{getAIController(ai.personality).description}</p>
+                  </div>
+                  <div className="space-y-2 text-left">
+                    <Label htmlFor="ai-difficulty">
+                      AI Difficulty: <span className="font-bold text-cyan-400">{ai.difficulty.toFixed(2)}</span>
+                    </Label>
+                    <Slider
+                      id="ai-difficulty"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={ai.difficulty}
+                      onValueChange={(value) => updateSettings({ ai: { ...ai, difficulty: value[0] } })}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between text-left">
+                    <Label htmlFor="adaptive-difficulty">Adaptive Difficulty</Label>
+                    <Switch
+                      id="adaptive-difficulty"
+                      checked={ai.adaptive}
+                      onCheckedChange={(adaptive) => updateSettings({ ai: { ...ai, adaptive } })}
+                    />
+                  </div>
+                </>
+              )}
               <div className="space-y-2 text-left">
                 <Label htmlFor="initial-speed">
                   Initial Ball Speed: <span className="font-bold text-cyan-400">{initialBallSpeed.toFixed(1)}</span>
                 </Label>
                 <Slider 
                   id="initial-speed"
-                  min={2}
-                  max={10}
+                  min={MIN_INITIAL_BALL_SPEED}
+                  max={MAX_INITIAL_BALL_SPEED}
                   step={0.5}
                   value={initialBallSpeed}
-                  onValueChange={(value) => setInitialBallSpeed(value[0])}
+                  onValueChange={(value) => updateSettings({ initialBallSpeed: value[0] })}
                 />
               </div>
               <div className="space-y-2 text-left">
                 <Label htmlFor="speed-increase">
-                  Speed Increase & AI Difficulty: <span className="font-bold text-cyan-400">{speedIncrease.toFixed(2)}</span>
+                  Speed Increase: <span className="font-bold text-cyan-400">{speedIncrease.toFixed(2)}</span>
                 </Label>
                 <Slider 
                   id="speed-increase"
                   min={0}
-                  max={1}
+                  max={MAX_SPEED_INCREASE}
                   step={0.05}
                   value={speedIncrease}
-                  onValueChange={(value) => setSpeedIncrease(value[0])}
+                  onValueChange={(value) => updateSettings({ speedIncrease: value[0] })}
                 />
               </div>
               <div className="space-y-2 text-left">
@@ -133,7 +604,7 @@ const App: React.FC = () => {
                   max={MAX_PADDLE_WIDTH}
                   step={10}
                   value={paddleWidth}
-                  onValueChange={(value) => setPaddleWidth(value[0])}
+                  onValueChange={(value) => updateSettings({ paddleWidth: value[0] })}
                 />
               </div>
               <div className="space-y-2 text-left">
@@ -146,49 +617,312 @@ const App: React.FC = () => {
                   max={MAX_PADDLE_HEIGHT}
                   step={2}
                   value={paddleHeight}
-                  onValueChange={(value) => setPaddleHeight(value[0])}
+                  onValueChange={(value) => updateSettings({ paddleHeight: value[0] })}
                 />
               </div>
             </div>
 
-            <Button onClick={handleStartGame} className="mt-8">
+            <div className="w-full mt-6 text-left">
+              <button
+                type="button"
+                aria-expanded={showRules}
+                onClick={() => setShowRules(show => !show)}
+                className="text-sm font-medium text-slate-300 hover:text-cyan-400"
+              >
+                {showRules ? '▾' : '▸'} Match Rules
+              </button>
+              <p className="text-xs text-slate-400 mt-1">{describeRules(rules)}</p>
+              {showRules && (
+                <div className="mt-3">
+                  <MatchRulesEditor rules={rules} onChange={(value) => updateSettings({ rules: value })} />
+                </div>
+              )}
+            </div>
+
+            <div className="w-full mt-4 text-left">
+              <button
+                type="button"
+                aria-expanded={showPresets}
+                onClick={() => setShowPresets(show => !show)}
+                className="text-sm font-medium text-slate-300 hover:text-cyan-400"
+              >
+                {showPresets ? '▾' : '▸'} Presets & Sharing
+              </button>
+              {showPresets && (
+                <div className="mt-3">
+                  <SettingsPresets settings={settings} onApply={setSettings} />
+                </div>
+              )}
+            </div>
+
+            <div className="w-full mt-4 text-left">
+              <button
+                type="button"
+                aria-expanded={showSound}
+                onClick={() => setShowSound(show => !show)}
+                className="text-sm font-medium text-slate-300 hover:text-cyan-400"
+              >
+                {showSound ? '▾' : '▸'} Sound
+              </button>
+              {showSound && (
+                <div className="mt-3">
+                  <AudioSettingsEditor settings={audioSettings} onChange={setAudioSettings} />
+                </div>
+              )}
+            </div>
+
+            <div className="w-full mt-4 text-left">
+              <button
+                type="button"
+                aria-expanded={showDisplay}
+                onClick={() => setShowDisplay(show => !show)}
+                className="text-sm font-medium text-slate-300 hover:text-cyan-400"
+              >
+                {showDisplay ? '▾' : '▸'} Display
+              </button>
+              {showDisplay && (
+                <div className="mt-3">
+                  <DisplaySettingsEditor
+                    settings={displaySettings}
+                    onChange={setDisplaySettings}
+                    frameStatsKey={bindings.frameStats.map(formatKeyCode).join(' or ')}
+                    reducedMotion={reducedMotion}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="w-full mt-4 text-left">
+              <button
+                type="button"
+                aria-expanded={showControls}
+                onClick={() => setShowControls(show => !show)}
+                className="text-sm font-medium text-slate-300 hover:text-cyan-400"
+              >
+                {showControls ? '▾' : '▸'} Controls
+              </button>
+              {showControls && (
+                <div className="mt-3">
+                  <KeyBindingsEditor bindings={bindings} onChange={setBindings} />
+                </div>
+              )}
+            </div>
+
+            <Button onClick={handleStartGame} disabled={!selectedLevel.level} className="mt-8 disabled:opacity-50 disabled:hover:scale-100">
               Start Game
             </Button>
+            {/* The input stays focusable (only visually hidden) so the label can be reached with Tab. */}
+            <label className="mt-4 text-sm text-slate-400 hover:text-cyan-400 focus-within:text-cyan-400 focus-within:underline cursor-pointer">
+              Load Replay
+              <input type="file" accept="application/json,.json" className="sr-only" onChange={handleLoadReplay} />
+            </label>
+            <button
+              type="button"
+              onClick={handleOpenEditor}
+              className="mt-2 text-sm text-slate-400 hover:text-cyan-400"
+            >
+              Level Editor
+            </button>
+            <button
+              type="button"
+              onClick={handleOpenHistory}
+              className="mt-2 text-sm text-slate-400 hover:text-cyan-400"
+            >
+              Match History
+            </button>
+            <button
+              type="button"
+              onClick={handleOpenLobby}
+              className="mt-2 text-sm text-slate-400 hover:text-cyan-400"
+            >
+              Play Online
+            </button>
+            {replayError && <p className="text-sm text-red-400 mt-2">{replayError}</p>}
           </Card>
         );
-      case GameState.GameOver:
+      case 'matchOver':
         return (
-          <Card>
-            <h1 className="text-4xl font-bold text-white tracking-wider">Game Over</h1>
-            <p className="text-2xl text-cyan-400 mt-4">{winner} Win!</p>
-            <div className="flex space-x-4 mt-8">
-              <Button onClick={handlePlayAgain}>Play Again</Button>
-              <Button onClick={handleGoToMenu} variant="secondary">Main Menu</Button>
+          <Card autoFocus aria-labelledby="game-over-title" className="w-full max-w-md max-h-full overflow-y-auto">
+            <h1 id="game-over-title" className="text-4xl font-bold text-white tracking-wider">Game Over</h1>
+            <p className="text-2xl text-cyan-400 mt-4">{winnerText}</p>
+            {matchConfig && matchProgress && (
+              <div className="mt-4 text-slate-300">
+                {matchConfig.rules.sets > 1 && (
+                  <p className="text-lg font-semibold">
+                    Sets {matchProgress.sets.player}–{matchProgress.sets.ai}
+                  </p>
+                )}
+                <p className="text-sm">
+                  {matchProgress.setScores.map(set => `${set.player}–${set.ai}`).join(', ')}
+                </p>
+                <p className="text-xs text-slate-400 mt-1">{describeRules(matchConfig.rules)}</p>
+              </div>
+            )}
+            {matchStats && (
+              <div className="mt-6">
+                <MatchSummary stats={matchStats} names={playerNames} />
+              </div>
+            )}
+            {online && onlineStatus?.seat && onlineStatus.players[onlineStatus.seat]?.wantsRematch && (
+              <p className="text-sm text-slate-400 mt-6">
+                {onlineOpponent ? `Waiting for ${onlineOpponent.name} to accept the rematch…` : 'Your opponent has left.'}
+              </p>
+            )}
+            <div className="flex flex-wrap justify-center gap-4 mt-8">
+              {online ? (
+                <Button onClick={() => online.requestRematch()} disabled={!onlineOpponent?.connected} className="disabled:opacity-50">
+                  {onlineOpponent?.wantsRematch ? 'Accept Rematch' : 'Rematch'}
+                </Button>
+              ) : (
+                <Button onClick={handlePlayAgain}>Play Again</Button>
+              )}
+              {isTestPlay ? (
+                <Button onClick={handleOpenEditor} variant="secondary">Back to Editor</Button>
+              ) : (
+                <Button onClick={handleGoToMenu} variant="secondary">Main Menu</Button>
+              )}
             </div>
+            {lastRecording && !online && (
+              <div className="flex flex-wrap justify-center gap-4 mt-4">
+                <Button onClick={() => handleWatchReplay(lastRecording)} variant="secondary">Watch Replay</Button>
+                <Button onClick={handleSaveReplay} variant="secondary">Save Replay</Button>
+              </div>
+            )}
           </Card>
         );
-      case GameState.Playing:
+      case 'countdown':
+      case 'inPlay':
+      case 'pointScored':
+      case 'paused':
         return (
           <>
-            <Game 
-              onScoreUpdate={handleScoreUpdate} 
-              initialBallSpeed={initialBallSpeed}
-              speedIncrease={speedIncrease}
-              paddleWidth={paddleWidth}
-              paddleHeight={paddleHeight}
-              isPaused={isPaused}
-            />
+            {matchConfig && (
+              <Game 
+                onClockChange={setSecondsLeft}
+                onMatchStats={setMatchStats}
+                config={matchConfig}
+                input={input}
+                events={gameEvents}
+                phase={flow.phase}
+                onFlowAction={handleFlowAction}
+                resolution={scale * window.devicePixelRatio}
+                onDifficultyChange={setCurrentAiDifficulty}
+                onPowerUpsChange={setActivePowerUps}
+                recorder={recorderRef.current ?? undefined}
+                replay={replay ?? undefined}
+                online={online ?? undefined}
+                theme={theme}
+                particleQuality={reducedMotion ? 'off' : displaySettings.particles}
+                reducedMotion={reducedMotion}
+                onFrameStats={displaySettings.showFrameStats ? handleFrameStats : undefined}
+              />
+            )}
+            {displaySettings.showFrameStats && (
+              <div className="absolute top-20 left-4 text-xs font-mono text-slate-400 bg-black/60 px-2 py-1 rounded pointer-events-none z-10">
+                {frameStats ? (
+                  <>
+                    <div>{frameStats.fps.toFixed(0)} FPS</div>
+                    <div>frame {frameStats.averageFrameMs.toFixed(1)} ms · worst {frameStats.worstFrameMs.toFixed(1)} ms</div>
+                    <div>update {frameStats.averageUpdateMs.toFixed(2)} ms</div>
+                    <div>particles {frameStats.particles}</div>
+                    {frameStats.quality !== 'off' &&
+                      (frameBaseline ? (
+                        <div>
+                          off: frame {frameBaseline.averageFrameMs.toFixed(1)} ms · update {frameBaseline.averageUpdateMs.toFixed(2)} ms
+                        </div>
+                      ) : (
+                        <div>turn particles off once for a baseline</div>
+                      ))}
+                  </>
+                ) : (
+                  <div>measuring…</div>
+                )}
+              </div>
+            )}
+            {matchConfig?.mode === GameMode.VsAI && matchConfig.ai.adaptive && (
+              <div className="absolute bottom-4 right-4 text-xs font-semibold tracking-wider text-slate-400 pointer-events-none">
+                AI LEVEL <span style={{ color: theme.ui.accent }}>{Math.round(currentAiDifficulty * 100)}%</span>
+              </div>
+            )}
+            {replay && (
+              <div className="absolute bottom-4 left-4 text-sm font-bold tracking-widest pointer-events-none" style={{ color: theme.ui.accent }}>
+                REPLAY · SEED {replay.config.seed}
+              </div>
+            )}
+            {online && onlineStatus && (
+              <div className="absolute bottom-4 left-4 text-xs font-semibold tracking-wider text-slate-400 pointer-events-none">
+                {onlineStatus.connection === 'reconnecting' ? (
+                  <span className="text-yellow-400 animate-pulse">RECONNECTING…</span>
+                ) : (
+                  <>ROOM {onlineStatus.code} · PING <span style={{ color: theme.ui.accent }}>{onlineStatus.latency ?? '–'} ms</span></>
+                )}
+              </div>
+            )}
+            {flow.phase === 'countdown' && (
+              <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                <span
+                  className="text-8xl font-bold text-white"
+                  style={textGlow()}
+                >
+                  {flow.count}
+                </span>
+              </div>
+            )}
+            {flow.phase === 'pointScored' && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
+                <h2
+                  className="text-7xl font-bold tracking-widest"
+                  style={{ color: theme.ui[flow.scorer], ...textGlow('currentColor') }}
+                >
+                  {flow.setOver ? 'SET!' : 'POINT!'}
+                </h2>
+                <p className="text-slate-300 mt-2 text-xl">{renderMark(flow.scorer)}{playerNames[flow.scorer]}</p>
+              </div>
+            )}
             {isPaused && (
-              <div className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm flex flex-col items-center justify-center text-center">
-                <h2 
-                  className="text-7xl font-bold text-cyan-400 tracking-widest"
-                  style={{ textShadow: '0 0 20px rgba(0, 255, 255, 0.7)' }}
+              <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="pause-title"
+                className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm flex flex-col items-center justify-center text-center"
+              >
+                <h2
+                  id="pause-title"
+                  className="text-7xl font-bold tracking-widest"
+                  style={{ color: theme.ui.accent, ...textGlow() }}
                 >
                   PAUSED
                 </h2>
-                <p className="text-slate-400 mt-4 text-lg animate-pulse">
-                  Press 'P' or ESC to Resume
-                </p>
+                {onlineOpponent && !onlineOpponent.connected ? (
+                  <p className="text-slate-400 mt-4 text-lg animate-pulse">
+                    {onlineOpponent.name} lost their connection. Waiting for them to come back…
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-slate-400 mt-4 text-lg animate-pulse">
+                      Press {bindings.pause.map(formatKeyCode).join(' or ')} (or Start on a gamepad) to Resume
+                    </p>
+                    <Button autoFocus onClick={() => handleFlowAction({ type: 'resume' })} className="mt-8">
+                      Resume
+                    </Button>
+                  </>
+                )}
+                {onlineStatus?.error && <p className="text-sm text-red-400 mt-4">{onlineStatus.error}</p>}
+                {online && (
+                  <Button
+                    autoFocus={!!onlineOpponent && !onlineOpponent.connected}
+                    onClick={handleGoToMenu}
+                    variant="secondary"
+                    className="mt-4"
+                  >
+                    Leave Match
+                  </Button>
+                )}
+                {isTestPlay && (
+                  <Button onClick={handleOpenEditor} variant="secondary" className="mt-4">
+                    Back to Editor
+                  </Button>
+                )}
               </div>
             )}
           </>
@@ -198,24 +932,138 @@ const App: React.FC = () => {
     }
   };
 
+  const isPlaying = isInMatch(flow);
+
+  const renderPowerUpIcons = (side: keyof Score) => activePowerUps
+    .filter(effect => effect.side === side)
+    .map(effect => (
+      <span
+        key={effect.kind}
+        title={POWER_UPS[effect.kind].name}
+        className="inline-flex items-center justify-center w-6 h-6 mx-1 rounded-full text-xs align-middle text-white"
+        style={{ backgroundColor: POWER_UPS[effect.kind].color }}
+      >
+        {POWER_UPS[effect.kind].icon}
+      </span>
+    ));
+
+  // Each side's paddle mark as text, when the color palette adds marks.
+  const renderMark = (side: keyof Score) => {
+    const { mark } = theme.paddles[side];
+    return mark && <span aria-hidden="true" className="text-base align-middle mx-1">{PADDLE_MARK_SYMBOLS[mark]}</span>;
+  };
+
+  if (flow.phase === 'editor' && editorLevel) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-slate-900 font-sans p-4">
+        <LevelEditor
+          level={editorLevel}
+          onChange={setEditorLevel}
+          onTestPlay={handleTestPlay}
+          onExit={handleGoToMenu}
+        />
+      </div>
+    );
+  }
+
+  if (flow.phase === 'lobby') {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-slate-900 font-sans p-4">
+        <OnlineLobby
+          status={onlineStatus}
+          settingsSummary={`${selectedLevel.level?.name ?? selectedLevel.id}, ${describeRules(rules)}`}
+          onCreate={(serverUrl, name) => connectOnline(serverUrl, client => client.create(name, settings))}
+          onJoin={(serverUrl, code, name) => connectOnline(serverUrl, client => client.join(code, name))}
+          onExit={handleGoToMenu}
+        />
+      </div>
+    );
+  }
+
+  if (flow.phase === 'history') {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-slate-900 font-sans p-4">
+        <MatchHistory onExit={handleGoToMenu} />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex flex-col items-center justify-center bg-slate-900 font-sans p-4">
       <div 
-        className="relative bg-black shadow-2xl shadow-cyan-500/20 border-2 border-slate-700"
-        style={{ width: GAME_WIDTH, height: GAME_HEIGHT }}
+        className={`relative bg-black shadow-2xl border-2 overflow-hidden ${theme.ui.glow ? 'shadow-cyan-500/20' : ''}`}
+        style={{ width: GAME_WIDTH * scale, height: GAME_HEIGHT * scale, borderColor: theme.ui.frame }}
       >
-        {gameState === GameState.Playing && (
-          <div className="absolute top-0 left-0 right-0 p-4 flex justify-between text-white font-bold text-4xl pointer-events-none z-10">
-            <span className="text-cyan-400">{score.ai}</span>
-            <span className="text-pink-500">{score.player}</span>
+        {/* The stage keeps the logical GAME_WIDTH x GAME_HEIGHT coordinate system and is scaled as a whole. */}
+        <div
+          className="absolute top-0 left-0"
+          style={{ width: GAME_WIDTH, height: GAME_HEIGHT, transform: `scale(${scale})`, transformOrigin: 'top left' }}
+        >
+          {isPlaying && (
+            <div className="absolute top-0 left-0 right-0 p-4 flex justify-between items-start text-white font-bold text-4xl pointer-events-none z-10">
+              <span style={{ color: theme.ui.ai }}>
+                {score.ai} {renderMark('ai')}<span className="text-base font-semibold align-middle">{playerNames.ai}</span>
+                {renderPowerUpIcons('ai')}
+              </span>
+              <div className="flex flex-col items-center gap-1">
+                {!isPaused && (
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      aria-label="Pause"
+                      onClick={() => handleFlowAction({ type: 'pause' })}
+                      className="pointer-events-auto w-10 h-10 rounded-full bg-slate-800/70 border border-slate-600 text-slate-300 text-sm hover:text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                    >
+                      ❚❚
+                    </button>
+                    <button
+                      type="button"
+                      aria-label={audioSettings.muted ? 'Unmute' : 'Mute'}
+                      title={`${audioSettings.muted ? 'Unmute' : 'Mute'} (${bindings.mute.map(formatKeyCode).join(' or ')})`}
+                      onClick={toggleMute}
+                      className="pointer-events-auto w-10 h-10 rounded-full bg-slate-800/70 border border-slate-600 text-slate-300 text-sm hover:text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                    >
+                      {audioSettings.muted ? '🔇' : '🔊'}
+                    </button>
+                  </div>
+                )}
+                {matchConfig && matchConfig.rules.sets > 1 && matchProgress && (
+                  <span className="text-xs font-semibold tracking-wider text-slate-300">
+                    SETS <span style={{ color: theme.ui.ai }}>{matchProgress.sets.ai}</span>–<span style={{ color: theme.ui.player }}>{matchProgress.sets.player}</span>
+                  </span>
+                )}
+                {matchProgress?.suddenDeath ? (
+                  <span className="text-xs font-bold tracking-widest text-red-400 animate-pulse">SUDDEN DEATH</span>
+                ) : secondsLeft !== null && (
+                  <span className="text-sm font-mono text-slate-300">
+                    {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, '0')}
+                  </span>
+                )}
+              </div>
+              <span style={{ color: theme.ui.player }}>
+                {renderPowerUpIcons('player')}
+                <span className="text-base font-semibold align-middle">{playerNames.player}</span>{renderMark('player')} {score.player}
+              </span>
+            </div>
+          )}
+          {isPlaying && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              {renderContent()}
+            </div>
+          )}
+        </div>
+        {/* Menus are laid out at the real screen size so they stay readable on small screens. */}
+        {!isPlaying && (
+          <div className="absolute inset-0 flex items-center justify-center p-2">
+            {renderContent()}
           </div>
         )}
-        <div className="absolute inset-0 flex items-center justify-center">
-            {renderContent()}
-        </div>
       </div>
-      <footer className="text-slate-500 mt-4 text-sm">
-        Use your mouse to control the bottom paddle. First to {WINNING_SCORE} points wins.
+      <div aria-live="polite" aria-atomic="true" className="sr-only">{announcement}</div>
+      <footer className="text-slate-500 mt-4 text-sm text-center">
+        {gameMode === GameMode.LocalVersus
+          ? `Bottom: mouse or ${keyPair('p1Left', 'p1Right')}. Top: ${keyPair('p2Left', 'p2Right')} or a second gamepad. ${describeRules(rules)}.`
+          : `Use your mouse, keyboard or a gamepad to control the bottom paddle. ${describeRules(rules)}.`}
       </footer>
     </div>
   );
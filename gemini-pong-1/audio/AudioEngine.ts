@@ -0,0 +1,150 @@
+import { GAME_WIDTH, MAX_BALL_SPEED, MIN_INITIAL_BALL_SPEED } from '../constants';
+import { MusicSequencer } from './music';
+import { DEFAULT_SOUND_PACK, SOUND_PACKS, SoundId, SoundPackId } from './soundPacks';
+import { playTone } from './tone';
+
+// --- Audio Engine ---
+// One engine lives for the whole app and is shared by every match. Sound effects and music feed
+// their own gain stages, which both feed a master gain:
+//
+//   effects ─┐
+//            ├─ master ─ speakers
+//   music ───┘
+//
+// The AudioContext is only created on the first sound or the first bar of music, which always
+// follows a click, so browsers let it start.
+
+export type AudioSettings = {
+  // Volumes from 0 to 1.
+  master: number;
+  effects: number;
+  music: number;
+  muted: boolean;
+  pack: SoundPackId;
+};
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  master: 0.8,
+  effects: 0.8,
+  music: 0.4,
+  muted: false,
+  pack: DEFAULT_SOUND_PACK,
+};
+
+// Music tempo, in beats per minute, at the slowest serve and at the ball's top speed.
+const MIN_TEMPO = 96;
+const MAX_TEMPO = 168;
+// How far a sound at the edge of the court is panned, from 0 (center) to 1 (one speaker only).
+const MAX_PAN = 0.8;
+// Seconds a volume change takes to settle, so sliders don't click.
+const VOLUME_SMOOTHING = 0.02;
+
+export const tempoForBallSpeed = (speed: number) => {
+  const t = (speed - MIN_INITIAL_BALL_SPEED) / (MAX_BALL_SPEED - MIN_INITIAL_BALL_SPEED);
+  return MIN_TEMPO + (MAX_TEMPO - MIN_TEMPO) * Math.min(1, Math.max(0, t));
+};
+
+// Stereo position for something at `x` on the court: -1 is the left speaker, 1 the right.
+export const panForX = (x: number) => Math.min(1, Math.max(-1, (x / GAME_WIDTH) * 2 - 1)) * MAX_PAN;
+
+type Mixer = {
+  context: AudioContext;
+  master: GainNode;
+  effects: GainNode;
+  music: GainNode;
+};
+
+export class AudioEngine {
+  private mixer: Mixer | null = null;
+  private sequencer: MusicSequencer | null = null;
+  private settings: AudioSettings = DEFAULT_AUDIO_SETTINGS;
+  private unsupported = false;
+  // The game wants music; it is only actually playing while unmuted.
+  private musicRequested = false;
+  private tempo = MIN_TEMPO;
+
+  configure(settings: AudioSettings) {
+    this.settings = settings;
+    if (this.sequencer) this.sequencer.style = SOUND_PACKS[settings.pack].music;
+    this.applyVolumes();
+    this.updateMusic();
+  }
+
+  // Plays a sound effect, panned to `x` on the court when given.
+  play(sound: SoundId, x?: number) {
+    if (this.settings.muted) return;
+    const mixer = this.ensureMixer();
+    if (!mixer) return;
+    const { context, effects } = mixer;
+    let destination: AudioNode = effects;
+    if (x !== undefined && context.createStereoPanner) {
+      const panner = context.createStereoPanner();
+      panner.pan.value = panForX(x);
+      panner.connect(effects);
+      destination = panner;
+    }
+    playTone(context, destination, SOUND_PACKS[this.settings.pack].sounds[sound]);
+  }
+
+  startMusic() {
+    this.musicRequested = true;
+    this.updateMusic();
+  }
+
+  stopMusic() {
+    this.musicRequested = false;
+    this.updateMusic();
+  }
+
+  // The music speeds up with the ball; pass the speed of the fastest ball in play.
+  setBallSpeed(speed: number) {
+    this.tempo = tempoForBallSpeed(speed);
+    if (this.sequencer) this.sequencer.tempo = this.tempo;
+  }
+
+  private updateMusic() {
+    if (!this.musicRequested || this.settings.muted) {
+      this.sequencer?.stop();
+      return;
+    }
+    const mixer = this.ensureMixer();
+    if (!mixer) return;
+    this.sequencer ??= new MusicSequencer(mixer.context, mixer.music, SOUND_PACKS[this.settings.pack].music);
+    this.sequencer.tempo = this.tempo;
+    this.sequencer.start();
+  }
+
+  private applyVolumes() {
+    if (!this.mixer) return;
+    const { context, master, effects, music } = this.mixer;
+    const now = context.currentTime;
+    master.gain.setTargetAtTime(this.settings.muted ? 0 : this.settings.master, now, VOLUME_SMOOTHING);
+    effects.gain.setTargetAtTime(this.settings.effects, now, VOLUME_SMOOTHING);
+    music.gain.setTargetAtTime(this.settings.music, now, VOLUME_SMOOTHING);
+  }
+
+  private ensureMixer(): Mixer | null {
+    if (this.mixer) {
+      // Browsers suspend contexts created without a user gesture, and some suspend idle ones.
+      if (this.mixer.context.state === 'suspended') this.mixer.context.resume();
+      return this.mixer;
+    }
+    if (this.unsupported) return null;
+    try {
+      const context = new (window.AudioContext || (window as any).webkitAudioContext)() as AudioContext;
+      const master = context.createGain();
+      const effects = context.createGain();
+      const music = context.createGain();
+      effects.connect(master);
+      music.connect(master);
+      master.connect(context.destination);
+      this.mixer = { context, master, effects, music };
+      this.applyVolumes();
+      return this.mixer;
+    } catch (e) {
+      console.error("Web Audio API is not supported in this browser.", e);
+      this.unsupported = true;
+      return null;
+    }
+  }
+}
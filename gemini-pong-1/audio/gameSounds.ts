@@ -0,0 +1,38 @@
+import { GameEventBus } from '../game/events';
+import { BlockType } from '../game/levels';
+import { AudioEngine } from './AudioEngine';
+import { SoundId } from './soundPacks';
+
+// --- Game Sounds ---
+// Which sound each game event makes and where on the court it comes from. The music's tempo
+// follows the speed of the last ball served or hit.
+
+const BLOCK_HIT_SOUNDS: Record<BlockType, SoundId> = {
+  breakable: 'blockHit',
+  indestructible: 'wallBlockHit',
+  moving: 'movingBlockHit',
+  regenerating: 'blockHit',
+  deflector: 'deflectorHit',
+  bumper: 'bumperHit',
+};
+
+// Plays the game's sounds through `audio` for as long as the returned function isn't called.
+export const connectGameSounds = (events: GameEventBus, audio: AudioEngine) => {
+  const unsubscribes = [
+    events.on('serve', ({ balls }) => audio.setBallSpeed(Math.max(...balls.map(ball => ball.speed)))),
+    events.on('paddleHit', ({ ball }) => {
+      audio.play('paddleHit', ball.x);
+      audio.setBallSpeed(ball.speed);
+    }),
+    events.on('ballCaught', ({ ball }) => audio.play('paddleHit', ball.x)),
+    events.on('blockHit', ({ block, ball }) => {
+      audio.play(BLOCK_HIT_SOUNDS[block.type], ball.x);
+      audio.setBallSpeed(ball.speed);
+    }),
+    events.on('blockRegenerated', ({ block }) => audio.play('blockRegrow', block.x + block.width / 2)),
+    events.on('point', ({ scorer, ball }) => audio.play(scorer === 'player' ? 'playerScore' : 'aiScore', ball.x)),
+    events.on('powerUpCollected', ({ paddle }) => audio.play('powerUp', paddle.x + paddle.width / 2)),
+    events.on('shieldSaved', ({ ball }) => audio.play('shield', ball.x)),
+  ];
+  return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+};
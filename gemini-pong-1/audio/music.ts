@@ -0,0 +1,76 @@
+import { MusicStyle } from './soundPacks';
+import { playTone } from './tone';
+
+// --- Background Music ---
+// An endless arpeggio over a looping chord progression, generated from the sound pack's style.
+// Notes are scheduled slightly ahead on the AudioContext clock, so timer jitter never reaches the
+// beat and a tempo change takes effect on the next note.
+
+const LOOKAHEAD_MS = 25;
+const SCHEDULE_AHEAD_SECONDS = 0.1;
+// Eighth notes: one bar is eight steps.
+const STEPS_PER_BEAT = 2;
+const STEPS_PER_BAR = 8;
+
+const BASS_VOLUME = 0.25;
+const LEAD_VOLUME = 0.12;
+
+const transpose = (frequency: number, semitones: number) => frequency * 2 ** (semitones / 12);
+
+export class MusicSequencer {
+  private timer: number | null = null;
+  private nextNoteTime = 0;
+  private step = 0;
+  // Beats per minute; read on every note.
+  tempo = 120;
+
+  constructor(
+    private readonly context: AudioContext,
+    private readonly output: AudioNode,
+    public style: MusicStyle,
+  ) {}
+
+  get playing() {
+    return this.timer !== null;
+  }
+
+  start() {
+    if (this.timer !== null) return;
+    this.nextNoteTime = this.context.currentTime + SCHEDULE_AHEAD_SECONDS;
+    this.timer = window.setInterval(this.schedule, LOOKAHEAD_MS);
+  }
+
+  stop() {
+    if (this.timer === null) return;
+    window.clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private schedule = () => {
+    while (this.nextNoteTime < this.context.currentTime + SCHEDULE_AHEAD_SECONDS) {
+      this.playStep(this.step, this.nextNoteTime);
+      this.nextNoteTime += 60 / this.tempo / STEPS_PER_BEAT;
+      this.step += 1;
+    }
+  };
+
+  private playStep(step: number, time: number) {
+    const { root, bassWave, leadWave, arpeggio, progression } = this.style;
+    const stepLength = 60 / this.tempo / STEPS_PER_BEAT;
+    const chordRoot = transpose(root, progression[Math.floor(step / STEPS_PER_BAR) % progression.length]);
+    if (step % STEPS_PER_BEAT === 0) {
+      playTone(this.context, this.output, {
+        frequency: chordRoot / 2,
+        wave: bassWave,
+        duration: stepLength * STEPS_PER_BEAT * 0.9,
+        volume: BASS_VOLUME,
+      }, time);
+    }
+    playTone(this.context, this.output, {
+      frequency: transpose(chordRoot, arpeggio[step % arpeggio.length]),
+      wave: leadWave,
+      duration: stepLength * 0.9,
+      volume: LEAD_VOLUME,
+    }, time);
+  }
+}
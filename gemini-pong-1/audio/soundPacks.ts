@@ -0,0 +1,115 @@
+import { ToneSpec } from './tone';
+
+// --- Sound Packs ---
+// A pack gives every game event its tone and sets the character of the background music. Packs
+// are swapped at any time; the next sound uses the new pack.
+
+export type SoundId =
+  | 'paddleHit'
+  | 'blockHit'
+  | 'wallBlockHit'
+  | 'movingBlockHit'
+  | 'deflectorHit'
+  | 'bumperHit'
+  | 'blockRegrow'
+  | 'playerScore'
+  | 'aiScore'
+  | 'powerUp'
+  | 'shield';
+
+export type MusicStyle = {
+  // Frequency of the tonic; the bass plays an octave below.
+  root: number;
+  bassWave: OscillatorType;
+  leadWave: OscillatorType;
+  // Semitones above the chord root for each eighth note of a bar.
+  arpeggio: number[];
+  // Semitones from the tonic for each bar's chord, looped.
+  progression: number[];
+};
+
+export type SoundPackId = 'classic' | 'retro' | 'soft';
+
+export type SoundPack = {
+  name: string;
+  description: string;
+  sounds: Record<SoundId, ToneSpec>;
+  music: MusicStyle;
+};
+
+export const DEFAULT_SOUND_PACK: SoundPackId = 'classic';
+
+export const SOUND_PACKS: Record<SoundPackId, SoundPack> = {
+  classic: {
+    name: 'Classic',
+    description: 'Clean synth tones.',
+    sounds: {
+      paddleHit: { frequency: 880, wave: 'sine', duration: 0.08 },           // A5, clean "ping"
+      blockHit: { frequency: 200, wave: 'sawtooth', duration: 0.15 },        // G#2, deeper "thud"
+      wallBlockHit: { frequency: 110, wave: 'square', duration: 0.1 },       // A2, dull metallic "clank"
+      movingBlockHit: { frequency: 329.63, wave: 'triangle', duration: 0.12 }, // E4, hollow knock
+      deflectorHit: { frequency: 1318.51, wave: 'sine', duration: 0.06 },   // E6, glassy "tink"
+      bumperHit: { frequency: 659.25, wave: 'square', duration: 0.1 },       // E5, springy "boing"
+      blockRegrow: { frequency: 523.25, wave: 'sine', duration: 0.25 },      // C5, soft chime
+      playerScore: { frequency: 783.99, wave: 'triangle', duration: 0.3 },   // G5, positive score
+      aiScore: { frequency: 130.81, wave: 'sawtooth', duration: 0.4 },       // C3, lower score tone
+      powerUp: { frequency: 987.77, wave: 'triangle', duration: 0.2 },       // B5, bright pickup
+      shield: { frequency: 246.94, wave: 'square', duration: 0.2 },          // B3, heavy "thunk"
+    },
+    music: {
+      root: 220,
+      bassWave: 'triangle',
+      leadWave: 'sine',
+      arpeggio: [0, 7, 12, 7, 3, 7, 12, 15],
+      progression: [0, -4, 3, -2],
+    },
+  },
+  retro: {
+    name: 'Retro',
+    description: 'Square waves and pitch sweeps, like an old console.',
+    sounds: {
+      paddleHit: { frequency: 660, wave: 'square', duration: 0.07, slideTo: 990, volume: 0.15 },
+      blockHit: { frequency: 180, wave: 'square', duration: 0.12, slideTo: 90, volume: 0.15 },
+      wallBlockHit: { frequency: 100, wave: 'square', duration: 0.08, volume: 0.15 },
+      movingBlockHit: { frequency: 300, wave: 'square', duration: 0.1, slideTo: 200, volume: 0.15 },
+      deflectorHit: { frequency: 1200, wave: 'square', duration: 0.05, slideTo: 1800, volume: 0.12 },
+      bumperHit: { frequency: 400, wave: 'square', duration: 0.15, slideTo: 900, volume: 0.15 },
+      blockRegrow: { frequency: 300, wave: 'square', duration: 0.3, slideTo: 600, volume: 0.12 },
+      playerScore: { frequency: 520, wave: 'square', duration: 0.35, slideTo: 1040, volume: 0.15 },
+      aiScore: { frequency: 300, wave: 'square', duration: 0.45, slideTo: 80, volume: 0.15 },
+      powerUp: { frequency: 600, wave: 'square', duration: 0.25, slideTo: 1600, volume: 0.12 },
+      shield: { frequency: 150, wave: 'square', duration: 0.2, slideTo: 60, volume: 0.15 },
+    },
+    music: {
+      root: 196,
+      bassWave: 'square',
+      leadWave: 'square',
+      arpeggio: [0, 12, 7, 12, 4, 12, 7, 12],
+      progression: [0, 5, 7, 5],
+    },
+  },
+  soft: {
+    name: 'Soft',
+    description: 'Quiet, rounded tones for late-night play.',
+    sounds: {
+      paddleHit: { frequency: 523.25, wave: 'sine', duration: 0.1, volume: 0.2 },
+      blockHit: { frequency: 196, wave: 'triangle', duration: 0.18, volume: 0.2 },
+      wallBlockHit: { frequency: 130.81, wave: 'sine', duration: 0.12, volume: 0.2 },
+      movingBlockHit: { frequency: 261.63, wave: 'triangle', duration: 0.14, volume: 0.2 },
+      deflectorHit: { frequency: 783.99, wave: 'sine', duration: 0.08, volume: 0.15 },
+      bumperHit: { frequency: 392, wave: 'sine', duration: 0.14, slideTo: 523.25, volume: 0.2 },
+      blockRegrow: { frequency: 659.25, wave: 'sine', duration: 0.3, volume: 0.15 },
+      playerScore: { frequency: 659.25, wave: 'sine', duration: 0.4, volume: 0.2 },
+      aiScore: { frequency: 220, wave: 'triangle', duration: 0.45, volume: 0.2 },
+      powerUp: { frequency: 880, wave: 'sine', duration: 0.25, slideTo: 1174.66, volume: 0.15 },
+      shield: { frequency: 174.61, wave: 'triangle', duration: 0.25, volume: 0.2 },
+    },
+    music: {
+      root: 261.63,
+      bassWave: 'sine',
+      leadWave: 'triangle',
+      arpeggio: [0, 4, 7, 11, 12, 11, 7, 4],
+      progression: [0, 9, 5, 7],
+    },
+  },
+};
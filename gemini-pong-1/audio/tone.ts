@@ -0,0 +1,36 @@
+// --- Tones ---
+// Every sound in the game, effects and music alike, is a single enveloped oscillator.
+
+export type ToneSpec = {
+  frequency: number;
+  wave: OscillatorType;
+  // Seconds until the tone has faded out.
+  duration: number;
+  // Glide to this frequency over the tone's duration.
+  slideTo?: number;
+  // Peak gain, before the mixer.
+  volume?: number;
+};
+
+const DEFAULT_VOLUME = 0.3;
+const ATTACK = 0.01;
+
+// Schedules one tone on `destination` at `time` (in AudioContext time).
+export const playTone = (context: AudioContext, destination: AudioNode, tone: ToneSpec, time = context.currentTime) => {
+  const oscillator = context.createOscillator();
+  const gainNode = context.createGain();
+  oscillator.connect(gainNode);
+  gainNode.connect(destination);
+
+  oscillator.type = tone.wave;
+  oscillator.frequency.setValueAtTime(tone.frequency, time);
+  if (tone.slideTo) oscillator.frequency.exponentialRampToValueAtTime(tone.slideTo, time + tone.duration);
+
+  // Simple ADSR-like envelope for a less harsh sound.
+  gainNode.gain.setValueAtTime(0, time);
+  gainNode.gain.linearRampToValueAtTime(tone.volume ?? DEFAULT_VOLUME, time + ATTACK);
+  gainNode.gain.exponentialRampToValueAtTime(0.001, time + tone.duration);
+
+  oscillator.start(time);
+  oscillator.stop(time + tone.duration);
+};
@@ -0,0 +1,62 @@
+import React from 'react';
+import { AudioSettings } from '../audio/AudioEngine';
+import { SOUND_PACKS, SoundPackId } from '../audio/soundPacks';
+import { Label } from './ui/Label';
+import { Select } from './ui/Select';
+import { Slider } from './ui/Slider';
+import { Switch } from './ui/Switch';
+
+interface AudioSettingsEditorProps {
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+}
+
+const PACK_OPTIONS = (Object.keys(SOUND_PACKS) as SoundPackId[]).map(pack => ({
+  value: pack,
+  label: SOUND_PACKS[pack].name,
+}));
+
+const VOLUMES: [keyof Pick<AudioSettings, 'master' | 'effects' | 'music'>, string][] = [
+  ['master', 'Master'],
+  ['effects', 'Effects'],
+  ['music', 'Music'],
+];
+
+// Mixer volumes, mute and the sound pack.
+export const AudioSettingsEditor: React.FC<AudioSettingsEditorProps> = ({ settings, onChange }) => {
+  const update = (changes: Partial<AudioSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="space-y-4 text-left">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="audio-muted">Mute</Label>
+        <Switch id="audio-muted" checked={settings.muted} onCheckedChange={(muted) => update({ muted })} />
+      </div>
+      {VOLUMES.map(([key, label]) => (
+        <div key={key} className="space-y-2">
+          <Label htmlFor={`volume-${key}`}>
+            {label}: <span className="font-bold text-cyan-400">{Math.round(settings[key] * 100)}%</span>
+          </Label>
+          <Slider
+            id={`volume-${key}`}
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings[key]}
+            onValueChange={(value) => update({ [key]: value[0] })}
+          />
+        </div>
+      ))}
+      <div className="space-y-2">
+        <Label htmlFor="sound-pack">Sound pack</Label>
+        <Select
+          id="sound-pack"
+          options={PACK_OPTIONS}
+          value={settings.pack}
+          onValueChange={(pack) => update({ pack: pack as SoundPackId })}
+        />
+        <p className="text-xs text-slate-400">{SOUND_PACKS[settings.pack].description}</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React from 'react';
+import { DisplaySettings, MOTION_PREFERENCES, MotionPreference } from '../display/settings';
+import { COLOR_PALETTES, ColorPaletteId } from '../display/palettes';
+import { THEMES, ThemeId } from '../display/themes';
+import { PARTICLE_QUALITIES, ParticleQuality } from './ParticleSystem';
+import { Label } from './ui/Label';
+import { Select } from './ui/Select';
+import { Switch } from './ui/Switch';
+
+interface DisplaySettingsEditorProps {
+  settings: DisplaySettings;
+  onChange: (settings: DisplaySettings) => void;
+  // Key that toggles the frame-time readout, e.g. "F3".
+  frameStatsKey: string;
+  // Whether motion ends up reduced, which also depends on the device setting.
+  reducedMotion: boolean;
+}
+
+const THEME_OPTIONS = (Object.keys(THEMES) as ThemeId[]).map(theme => ({
+  value: theme,
+  label: THEMES[theme].name,
+}));
+
+const PALETTE_OPTIONS = (Object.keys(COLOR_PALETTES) as ColorPaletteId[]).map(palette => ({
+  value: palette,
+  label: COLOR_PALETTES[palette].name,
+}));
+
+const MOTION_OPTIONS = (Object.keys(MOTION_PREFERENCES) as MotionPreference[]).map(motion => ({
+  value: motion,
+  label: MOTION_PREFERENCES[motion].name,
+}));
+
+const QUALITY_OPTIONS = (Object.keys(PARTICLE_QUALITIES) as ParticleQuality[]).map(quality => ({
+  value: quality,
+  label: PARTICLE_QUALITIES[quality].name,
+}));
+
+// Theme, colors, motion, particle quality and the frame-time readout.
+export const DisplaySettingsEditor: React.FC<DisplaySettingsEditorProps> = ({ settings, onChange, frameStatsKey, reducedMotion }) => {
+  const update = (changes: Partial<DisplaySettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="space-y-4 text-left">
+      <div className="space-y-2">
+        <Label htmlFor="display-theme">Theme</Label>
+        <Select
+          id="display-theme"
+          options={THEME_OPTIONS}
+          value={settings.theme}
+          onValueChange={(theme) => update({ theme: theme as ThemeId })}
+        />
+        <p className="text-xs text-slate-400">{THEMES[settings.theme].description}</p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="color-palette">Side colors</Label>
+        <Select
+          id="color-palette"
+          options={PALETTE_OPTIONS}
+          value={settings.colorPalette}
+          onValueChange={(colorPalette) => update({ colorPalette: colorPalette as ColorPaletteId })}
+        />
+        <p className="text-xs text-slate-400">{COLOR_PALETTES[settings.colorPalette].description}</p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="motion">Motion</Label>
+        <Select
+          id="motion"
+          options={MOTION_OPTIONS}
+          value={settings.motion}
+          onValueChange={(motion) => update({ motion: motion as MotionPreference })}
+        />
+        <p className="text-xs text-slate-400">{MOTION_PREFERENCES[settings.motion].description}</p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="particle-quality">Particles</Label>
+        <Select
+          id="particle-quality"
+          options={QUALITY_OPTIONS}
+          value={settings.particles}
+          disabled={reducedMotion}
+          onValueChange={(particles) => update({ particles: particles as ParticleQuality })}
+          className="disabled:opacity-50"
+        />
+        <p className="text-xs text-slate-400">
+          {reducedMotion ? 'Off while motion is reduced.' : PARTICLE_QUALITIES[settings.particles].description}
+        </p>
+      </div>
+      <div className="flex items-center justify-between">
+        <Label htmlFor="show-frame-stats">Show frame times</Label>
+        <Switch
+          id="show-frame-stats"
+          checked={settings.showFrameStats}
+          onCheckedChange={(showFrameStats) => update({ showFrameStats })}
+        />
+      </div>
+      {frameStatsKey && <p className="text-xs text-slate-400">Toggle in a match with {frameStatsKey}.</p>}
+    </div>
+  );
+};
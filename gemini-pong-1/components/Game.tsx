@@ -1,89 +1,117 @@
 import React, { useRef, useEffect } from 'react';
 // Fix: Removed DisplayObject from pixi.js import as it is not an exported member.
-import { Application, Graphics, Container } from 'pixi.js';
+import { Application, Graphics, Container, Text } from 'pixi.js';
 import {
   GAME_WIDTH,
   GAME_HEIGHT,
-  PADDLE_Y_OFFSET,
-  BALL_RADIUS,
-  BLOCK_WIDTH,
-  BLOCK_HEIGHT,
-  MAX_BALL_SPEED,
+  FIXED_TIMESTEP,
+  MAX_STEPS_PER_FRAME,
 } from '../constants';
+import { GameMode } from '../types';
+import { PongSimulation } from '../game/PongSimulation';
+import { PaddleState, Side, SimulationConfig, SimulationEvent, SimulationInput, SimulationState } from '../game/types';
+import { InputManager } from '../input/InputManager';
+import { MatchRecorder, MatchRecording, ReplayPlayer } from '../game/replay';
+import { BLOCK_TYPES } from '../game/levels';
+import { drawBlock } from './drawBlock';
+import { drawBall, drawPaddle, drawPaddleGlow } from './drawSkin';
+import { PaddleSkin, Theme } from '../display/themes';
+import { ActiveEffect, CAPSULE_HEIGHT, CAPSULE_WIDTH, POWER_UPS, SHIELD_INSET, hasEffect } from '../game/powerups';
+import { timeLeft } from '../game/rules';
+import { MatchFlowAction, MatchPhase, flowActionFor } from '../game/matchFlow';
+import { MatchStats, MatchStatsTracker } from '../game/stats';
+import { GameEventBus, describeStep, scoreChangeEvent } from '../game/events';
+import { OnlineClient } from '../net/OnlineClient';
+import { ParticleQuality, ParticleSystem } from './ParticleSystem';
+import { FrameStats, FrameTimer } from './frameTimer';
 
 interface GameProps {
-  onScoreUpdate: (scorer: 'player' | 'ai') => void;
-  initialBallSpeed: number;
-  speedIncrease: number;
-  paddleWidth: number;
-  paddleHeight: number;
-  isPaused: boolean;
+  // Receives the match statistics once the match is over.
+  onMatchStats?: (stats: MatchStats) => void;
+  // Whole seconds left in the set, when the match rules have a time limit.
+  onClockChange?: (secondsLeft: number) => void;
+  // Called when adaptive difficulty retunes the AI between points.
+  onDifficultyChange?: (difficulty: number) => void;
+  // Called whenever a power-up is collected, runs out or is used up.
+  onPowerUpsChange?: (active: ActiveEffect[]) => void;
+  config: SimulationConfig;
+  input: InputManager;
+  // Every step's events are published here, after the step has been drawn into the scene.
+  events: GameEventBus;
+  // The simulation only advances while the phase is 'inPlay'; 'paused' also freezes the effects.
+  phase: MatchPhase;
+  // Points, the end of the match and losing the tab are reported back into the match flow.
+  onFlowAction: (action: MatchFlowAction) => void;
+  // Receives every frame of a live match so it can be replayed later.
+  recorder?: MatchRecorder;
+  // When set, the match is re-run from this recording and player input is ignored.
+  replay?: MatchRecording;
+  // When set, the match is played on the match server: it runs the simulation, and this component
+  // sends the local paddle's input and draws the server's snapshots.
+  online?: OnlineClient;
+  // Device pixels per logical game pixel, so the canvas stays sharp when the stage is scaled.
+  resolution: number;
+  // Colors and shapes of the arena; read once, when the match is set up.
+  theme: Theme;
+  // How many trail and explosion particles are drawn.
+  particleQuality: ParticleQuality;
+  // Holds paddle glows steady instead of pulsing them.
+  reducedMotion: boolean;
+  // When set, receives frame-time measurements a couple of times a second.
+  onFrameStats?: (stats: FrameStats) => void;
 }
 
-// --- Sound Engine ---
-// Placed outside the component to manage a single AudioContext instance for the app.
-let audioContext: AudioContext | null = null;
-const sounds: { [key: string]: () => void } = {};
-
-const initAudio = () => {
-  // Initialize only once.
-  if (audioContext) return;
-  try {
-    audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-
-    const createSound = (freq: number, type: OscillatorType, duration: number) => {
-      return () => {
-        // Resume context on user interaction if it was suspended.
-        if (!audioContext || audioContext.state === 'suspended') {
-            audioContext?.resume();
-        }
-        if (!audioContext) return;
-        
-        const oscillator = audioContext.createOscillator();
-        const gainNode = audioContext.createGain();
+const Game: React.FC<GameProps> = ({ onMatchStats, onClockChange, onDifficultyChange, onPowerUpsChange, config, input, events: gameEvents, phase, onFlowAction, recorder, replay, online, resolution, theme, particleQuality, reducedMotion, onFrameStats }) => {
+  const gameCanvasRef = useRef<HTMLDivElement>(null);
+  const pixiAppRef = useRef<Application | null>(null);
+  
+  // Keep the backing store matched to the on-screen size; the logical size never changes.
+  useEffect(() => {
+    pixiAppRef.current?.renderer.resize(GAME_WIDTH, GAME_HEIGHT, resolution);
+  }, [resolution]);
 
-        oscillator.connect(gainNode);
-        gainNode.connect(audioContext.destination);
+  // The ticker is set up once, so it reads these through refs.
+  const particleSystemRef = useRef<ParticleSystem | null>(null);
+  const particleQualityRef = useRef(particleQuality);
+  const onFrameStatsRef = useRef(onFrameStats);
+  onFrameStatsRef.current = onFrameStats;
+  const reducedMotionRef = useRef(reducedMotion);
+  reducedMotionRef.current = reducedMotion;
 
-        oscillator.type = type;
-        oscillator.frequency.setValueAtTime(freq, audioContext.currentTime);
-        
-        // Simple ADSR-like envelope for a less harsh sound.
-        gainNode.gain.setValueAtTime(0, audioContext.currentTime);
-        gainNode.gain.linearRampToValueAtTime(0.3, audioContext.currentTime + 0.01); // Attack
-        gainNode.gain.exponentialRampToValueAtTime(0.001, audioContext.currentTime + duration); // Decay/Release
-
-        oscillator.start(audioContext.currentTime);
-        oscillator.stop(audioContext.currentTime + duration);
-      };
-    };
+  useEffect(() => {
+    particleQualityRef.current = particleQuality;
+    if (particleSystemRef.current) particleSystemRef.current.quality = particleQuality;
+  }, [particleQuality]);
 
-    // Define game sounds (Refined for better feel)
-    sounds.paddleHit = createSound(880, 'sine', 0.08);        // A5, clean "ping"
-    sounds.blockHit = createSound(200, 'sawtooth', 0.15);     // G#2, deeper "thud"
-    sounds.playerScore = createSound(783.99, 'triangle', 0.3); // G5, positive score
-    sounds.aiScore = createSound(130.81, 'sawtooth', 0.4);    // C3, lower score tone
+  // The ticker reads the phase through a ref, so it never sees a stale one.
+  const phaseRef = useRef(phase);
+  // Set by the ticker on the step that decides a point, so no further steps run before the parent
+  // has moved the flow on; cleared once play resumes.
+  const holdRef = useRef(false);
 
-  } catch (e) {
-    console.error("Web Audio API is not supported in this browser.", e);
-  }
-};
+  useEffect(() => {
+    phaseRef.current = phase;
+    if (phase === 'inPlay') holdRef.current = false;
+
+    // Pausing stops the ticker outright; other holds keep particles and banners animating.
+    const ticker = pixiAppRef.current?.ticker;
+    if (!ticker) return;
+    if (phase === 'paused') {
+      ticker.stop();
+    } else {
+      ticker.start();
+    }
+  }, [phase]);
 
 
-const Game: React.FC<GameProps> = ({ onScoreUpdate, initialBallSpeed, speedIncrease, paddleWidth, paddleHeight, isPaused }) => {
-  const gameCanvasRef = useRef<HTMLDivElement>(null);
-  const pixiAppRef = useRef<Application | null>(null);
-  
-  // Effect to control the ticker based on the isPaused prop from the parent
+  // Leaving the tab pauses the match rather than letting it play on unseen.
   useEffect(() => {
-    if (pixiAppRef.current && pixiAppRef.current.ticker) {
-      if (isPaused) {
-        pixiAppRef.current.ticker.stop();
-      } else {
-        pixiAppRef.current.ticker.start();
-      }
-    }
-  }, [isPaused]);
+    const handleVisibilityChange = () => {
+      if (document.hidden) onFlowAction({ type: 'pause' });
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [onFlowAction]);
 
   useEffect(() => {
     let isMounted = true;
@@ -93,12 +121,11 @@ const Game: React.FC<GameProps> = ({ onScoreUpdate, initialBallSpeed, speedIncre
     const cleanupPixiApp = (app: Application) => {
         // A single, comprehensive destroy call is the most robust way to prevent resource leaks.
         // It ensures the canvas, stage children, and their associated textures are all removed.
-        // Fix: The `stageOptions` property for `app.destroy` is from older PixiJS versions. In modern PixiJS, options like `children`, `texture`, and `baseTexture` are top-level properties in the destroy options object.
-        app.destroy({
-            removeView: true,
+        // Fix: In PixiJS v8 the renderer options (`removeView`) and the stage options (`children`, `texture`, `textureSource`) are separate arguments.
+        app.destroy({ removeView: true }, {
             children: true,
             texture: true,
-            baseTexture: true,
+            textureSource: true,
         });
     };
 
@@ -112,8 +139,10 @@ const Game: React.FC<GameProps> = ({ onScoreUpdate, initialBallSpeed, speedIncre
       await app.init({
         width: GAME_WIDTH,
         height: GAME_HEIGHT,
-        backgroundColor: 0x0A0F1A, // Dark blue-ish background
+        backgroundColor: theme.background,
         antialias: true,
+        resolution,
+        autoDensity: true, // CSS size stays at the logical GAME_WIDTH x GAME_HEIGHT
       });
 
       if (!isMounted || !gameCanvasRef.current) {
@@ -124,379 +153,385 @@ const Game: React.FC<GameProps> = ({ onScoreUpdate, initialBallSpeed, speedIncre
       pixiAppRef.current = app;
       gameCanvasRef.current.appendChild(app.canvas);
 
-      // --- Initialize Audio ---
-      // This is safe because the Game component only mounts after a user click ("Start Game")
-      initAudio();
-
-      // --- AI Difficulty ---
-      // Map speedIncrease (0 to 1) to an AI reaction speed (e.g., 0.05 to 0.20)
-      const AI_MIN_REACTION = 0.05; // Slower, easier AI
-      const AI_MAX_REACTION = 0.20; // Faster, harder AI
-      const aiReactionSpeed = AI_MIN_REACTION + (AI_MAX_REACTION - AI_MIN_REACTION) * speedIncrease;
+      // --- Simulation ---
+      // All gameplay rules live in the headless simulation; this component only renders its state.
+      const simulationConfig = replay ? replay.config : config;
+      const simulation = new PongSimulation(simulationConfig);
+      const replayPlayer = replay ? new ReplayPlayer(replay) : null;
+      const initialState = online?.snapshots.latest ?? simulation.getState();
+      const stats = new MatchStatsTracker();
+      stats.record(initialState, []);
+      const { width: paddleWidth, height: paddleHeight } = initialState.paddles.player;
 
       // --- Game Objects ---
-      const createPaddle = (y: number, color: number) => {
-        const paddle = new Graphics()
-          .fill(color)
-          .drawRoundedRect(0, 0, paddleWidth, paddleHeight, 8);
-        paddle.x = (GAME_WIDTH - paddleWidth) / 2;
-        paddle.y = y;
-        app.stage.addChild(paddle);
-        return paddle;
-      };
-      
-      const playerPaddle = createPaddle(GAME_HEIGHT - paddleHeight - PADDLE_Y_OFFSET, 0xFF007F); // Pink
-      
-      // --- AI Paddle with Glow Effect ---
-      const aiPaddleContainer = new Container();
-      aiPaddleContainer.x = (GAME_WIDTH - paddleWidth) / 2;
-      aiPaddleContainer.y = PADDLE_Y_OFFSET;
-
-      const aiPaddleGlow = new Graphics()
-          .fill({ color: 0x00FFFF, alpha: 0.3 })
-          .drawRoundedRect(-2, -2, paddleWidth + 4, paddleHeight + 4, 10); // Subtle glow
-
-      const aiPaddleGraphic = new Graphics()
-          .fill(0x00FFFF)
-          .drawRoundedRect(0, 0, paddleWidth, paddleHeight, 8);
-
-      aiPaddleContainer.addChild(aiPaddleGlow, aiPaddleGraphic);
-      app.stage.addChild(aiPaddleContainer);
-      const aiPaddle = aiPaddleContainer; // The container is now the main AI paddle object
-
-      const ball = new Graphics()
-        .fill(0xFFFFFF) // White
-        .circle(0, 0, BALL_RADIUS);
-      app.stage.addChild(ball);
-
-      // --- Breakable Blocks Setup ---
-      const BLOCK_MAX_HEALTH = 3;
-      type Block = Graphics & { health: number };
-      const allBlocks: Block[] = [];
-
-      const blockPositions = [
-          {x: GAME_WIDTH / 4 - BLOCK_WIDTH / 2, y: GAME_HEIGHT / 2 - BLOCK_HEIGHT * 1.5},
-          {x: GAME_WIDTH * 3/4 - BLOCK_WIDTH / 2, y: GAME_HEIGHT / 2 - BLOCK_HEIGHT * 1.5},
-          {x: GAME_WIDTH / 2 - BLOCK_WIDTH / 2, y: GAME_HEIGHT / 2 + BLOCK_HEIGHT * 0.5},
-      ];
-
-      const resetBlocks = () => {
-        allBlocks.forEach(block => {
-          block.health = BLOCK_MAX_HEALTH;
-          block.alpha = 1.0;
-          block.visible = true;
-        });
+      // A paddle is its body plus, when the theme gives it one, a pulsing glow behind it.
+      const createPaddle = (skin: PaddleSkin) => {
+        const container = new Container();
+        const glow = skin.glow ? drawPaddleGlow(new Graphics(), skin, paddleWidth, paddleHeight) : null;
+        const body = drawPaddle(new Graphics(), skin, paddleWidth, paddleHeight);
+        if (glow) container.addChild(glow);
+        container.addChild(body);
+        app.stage.addChild(container);
+        return { container, glow, body };
       };
-
-      blockPositions.forEach(pos => {
-          const block = new Graphics()
-            .fill(0x4A5568) // Gray
-            .drawRoundedRect(0, 0, BLOCK_WIDTH, BLOCK_HEIGHT, 5);
-          block.x = pos.x;
-          block.y = pos.y;
-          (block as Block).health = BLOCK_MAX_HEALTH;
+      const paddles = { player: createPaddle(theme.paddles.player), ai: createPaddle(theme.paddles.ai) };
+      const paddleGraphics: Record<Side, Container> = { player: paddles.player.container, ai: paddles.ai.container };
+
+      // One graphic per ball in play, keyed by ball id.
+      const ballGraphics = new Map<number, Graphics>();
+
+      // --- Breakable Blocks ---
+      const blockGraphics = new Map<number, Graphics>();
+      const { level } = simulationConfig;
+      const blockColor = (color: string) => theme.blockColor ?? color;
+      initialState.blocks.forEach(blockState => {
+          // Moving blocks leave a faint track along their path.
+          const { path } = level.blocks[blockState.id];
+          if (blockState.type === 'moving' && path) {
+            const track = new Graphics()
+              .roundRect(blockState.x, blockState.y, blockState.width, blockState.height, 5)
+              .roundRect(blockState.x + path.x, blockState.y + path.y, blockState.width, blockState.height, 5)
+              .stroke({ color: blockColor(blockState.color), width: 1, alpha: 0.3 });
+            app.stage.addChild(track);
+          }
+          const block = drawBlock(new Graphics(), { ...blockState, color: blockColor(blockState.color) });
+          block.x = blockState.x;
+          block.y = blockState.y;
           app.stage.addChild(block);
-          allBlocks.push(block as Block);
+          blockGraphics.set(blockState.id, block);
       });
 
+      // Balls come and go during a match. A new ball starts where it appears, so there is nothing
+      // to interpolate from; a ball that left play takes its graphic with it.
+      const syncBalls = (previous: SimulationState, state: SimulationState, alpha: number) => {
+        const live = new Set<number>();
+        state.balls.forEach(ballState => {
+          live.add(ballState.id);
+          let ball = ballGraphics.get(ballState.id);
+          if (!ball) {
+            ball = drawBall(new Graphics(), theme.ball.shape, theme.ball.color);
+            app.stage.addChild(ball);
+            ballGraphics.set(ballState.id, ball);
+          }
+          const before = previous.balls.find(b => b.id === ballState.id) ?? ballState;
+          ball.x = lerp(before.x, ballState.x, alpha);
+          ball.y = lerp(before.y, ballState.y, alpha);
+        });
+        ballGraphics.forEach((ball, id) => {
+          if (live.has(id)) return;
+          app.stage.removeChild(ball);
+          ball.destroy();
+          ballGraphics.delete(id);
+        });
+      };
+
       // --- Center Line ---
       const centerLine = new Graphics();
+      const { color: lineColor, alpha: lineAlpha, dashed } = theme.centerLine;
       for (let i = 0; i < GAME_WIDTH; i += 20) {
-        centerLine.rect(i, GAME_HEIGHT / 2 - 1, 10, 2).fill({ color: 0x4A5568, alpha: 0.5 });
+        centerLine.rect(i, GAME_HEIGHT / 2 - 1, dashed ? 10 : 20, 2).fill({ color: lineColor, alpha: lineAlpha });
       }
       app.stage.addChild(centerLine);
 
-      // --- Game State ---
-      let ballVelocity = { x: 0, y: 0 };
-      let currentBallSpeed = initialBallSpeed;
-
-      const resetBall = (direction: number) => {
-        resetBlocks(); // Reset blocks on score
-        currentBallSpeed = initialBallSpeed;
-        ball.x = GAME_WIDTH / 2;
-        ball.y = GAME_HEIGHT / 2;
-        const angle = Math.random() * (Math.PI / 2) - Math.PI / 4; // -45 to +45 deg
-        ballVelocity = {
-          x: Math.sin(angle) * currentBallSpeed,
-          y: Math.cos(angle) * currentBallSpeed * direction,
-        };
+      // --- Power-Ups ---
+      // Power-ups change paddle widths mid-match, so paddles are redrawn when their width changes.
+      const drawnWidths = { player: paddleWidth, ai: paddleWidth };
+      const resizePaddles = (paddleStates: SimulationState['paddles']) => {
+        (['player', 'ai'] as Side[]).forEach(side => {
+          const { width } = paddleStates[side];
+          if (width === drawnWidths[side]) return;
+          drawnWidths[side] = width;
+          const { glow, body } = paddles[side];
+          const skin = theme.paddles[side];
+          if (glow) drawPaddleGlow(glow.clear(), skin, width, paddleHeight);
+          drawPaddle(body.clear(), skin, width, paddleHeight);
+        });
       };
 
-      resetBall(Math.random() > 0.5 ? 1 : -1);
+      // A shield is a glowing line just in front of the goal it protects.
+      const createShield = (y: number) => {
+        const shield = new Graphics()
+          .rect(0, y - 2, GAME_WIDTH, 4)
+          .fill({ color: POWER_UPS.shield.color, alpha: 0.8 });
+        shield.visible = false;
+        app.stage.addChild(shield);
+        return shield;
+      };
+      const shields = { player: createShield(GAME_HEIGHT - SHIELD_INSET), ai: createShield(SHIELD_INSET) };
+
+      const capsuleGraphics = new Map<number, Container>();
+      const createCapsule = (kind: keyof typeof POWER_UPS) => {
+        const { color, icon } = POWER_UPS[kind];
+        const capsule = new Container();
+        capsule.addChild(
+          new Graphics()
+            .roundRect(-CAPSULE_WIDTH / 2, -CAPSULE_HEIGHT / 2, CAPSULE_WIDTH, CAPSULE_HEIGHT, CAPSULE_HEIGHT / 2)
+            .fill({ color, alpha: 0.85 })
+            .stroke({ color: 0xFFFFFF, width: 1.5, alpha: 0.8 }),
+        );
+        const label = new Text({ text: icon, style: { fill: 0xFFFFFF, fontSize: 12, fontWeight: 'bold' } });
+        label.anchor.set(0.5);
+        capsule.addChild(label);
+        app.stage.addChild(capsule);
+        return capsule;
+      };
 
-      // --- Mouse Control ---
+      // Capsules appear and disappear with the simulation; keep one display object per capsule.
+      const syncPowerUps = (previous: SimulationState, state: SimulationState, alpha: number) => {
+        const { powerUps } = state;
+        if (!powerUps) return;
+        const live = new Set<number>();
+        powerUps.capsules.forEach(capsuleState => {
+          live.add(capsuleState.id);
+          let capsule = capsuleGraphics.get(capsuleState.id);
+          if (!capsule) {
+            capsule = createCapsule(capsuleState.kind);
+            capsuleGraphics.set(capsuleState.id, capsule);
+          }
+          const before = previous.powerUps?.capsules.find(c => c.id === capsuleState.id) ?? capsuleState;
+          capsule.x = capsuleState.x;
+          capsule.y = lerp(before.y, capsuleState.y, alpha);
+        });
+        capsuleGraphics.forEach((capsule, id) => {
+          if (live.has(id)) return;
+          app.stage.removeChild(capsule);
+          capsule.destroy({ children: true });
+          capsuleGraphics.delete(id);
+        });
+        shields.player.visible = hasEffect(powerUps, 'shield', 'player');
+        shields.ai.visible = hasEffect(powerUps, 'shield', 'ai');
+      };
+
+      const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+      // Copies the simulation state onto the Pixi display objects. Moving objects are drawn
+      // `alpha` of the way from the previous step to the current one, so motion stays smooth when
+      // the display refreshes faster than the fixed simulation rate.
+      const syncGraphics = (previous: SimulationState, state: SimulationState, alpha: number) => {
+        resizePaddles(state.paddles);
+        syncBalls(previous, state, alpha);
+        (['player', 'ai'] as Side[]).forEach(side => {
+          paddleGraphics[side].x = lerp(previous.paddles[side].x, state.paddles[side].x, alpha);
+          paddleGraphics[side].y = state.paddles[side].y;
+        });
+        state.blocks.forEach(blockState => {
+          const block = blockGraphics.get(blockState.id);
+          if (!block) return;
+          const previousBlock = previous.blocks[blockState.id];
+          block.x = lerp(previousBlock.x, blockState.x, alpha);
+          block.y = lerp(previousBlock.y, blockState.y, alpha);
+          // A destroyed regenerating block stays as a faint ghost until it grows back.
+          block.visible = blockState.visible || blockState.regrowAt !== null;
+          if (!blockState.visible) {
+            block.alpha = 0.15;
+          } else {
+            block.alpha = BLOCK_TYPES[blockState.type].breakable && blockState.health < blockState.maxHealth
+              ? 0.3 + (blockState.health / blockState.maxHealth) * 0.7
+              : 1.0;
+          }
+        });
+        syncPowerUps(previous, state, alpha);
+      };
+
+      syncGraphics(initialState, initialState, 1);
+      gameEvents.emit(scoreChangeEvent(initialState));
+
+      // --- Player Control ---
+      // Mouse, keyboard and gamepads all go through the shared input layer.
+      input.reset();
+      // Online, each player steers their own paddle with every control they have.
+      input.combineControls = !!online || config.mode !== GameMode.LocalVersus;
       app.stage.eventMode = 'static';
       app.stage.hitArea = app.screen;
       app.stage.on('pointermove', (event) => {
-        let newX = event.global.x;
-        // Clamp paddle position to stay within game bounds
-        const halfPaddleWidth = paddleWidth / 2;
-        if (newX < halfPaddleWidth) newX = halfPaddleWidth;
-        if (newX > GAME_WIDTH - halfPaddleWidth) newX = GAME_WIDTH - halfPaddleWidth;
-        playerPaddle.x = newX - halfPaddleWidth;
+        // In two-player mode, a finger dragged on the top half of the field steers the top paddle.
+        const topHalfTouch = event.pointerType === 'touch' && event.global.y < GAME_HEIGHT / 2;
+        input.setPointerX(event.global.x, config.mode === GameMode.LocalVersus && !online && topHalfTouch ? 1 : 0);
       });
-      
-      // --- Collision Detection ---
-      const checkCollision = (objA: Graphics | Container, objB: Graphics | Container) => {
-          const a = objA.getBounds();
-          const b = objB.getBounds();
-          return a.x + a.width > b.x && a.x < b.x + b.width && a.y + a.height > b.y && a.y < b.y + b.height;
-      }
+
+      const paddleCenter = (paddle: PaddleState) => paddle.x + paddle.width / 2;
 
       // --- Game Loop & Particle Effects Setup ---
-      const TRAIL_MAX_LIFE = 20;
-      type TrailParticle = Graphics & { life: number };
-      const trailParticles: TrailParticle[] = [];
-
-      const EXPLOSION_MAX_LIFE = 70; // Increased life for a bigger explosion
-      type ExplosionParticle = Graphics & { 
-        life: number; 
-        startLife: number; // For accurate fading and scaling
-        velocity: { x: number; y: number } 
+      // Trails and explosions are drawn over everything created so far.
+      const particles = new ParticleSystem(app.renderer, app.stage, theme);
+      particles.quality = particleQualityRef.current;
+      particleSystemRef.current = particles;
+      const frameTimer = new FrameTimer();
+
+      let glowCounter = 0; // For the paddle glow animation
+
+      // Turns simulation events into visual effects, then publishes them. `before` is the state the
+      // step started from and `after` the state it produced.
+      const handleEvents = (events: SimulationEvent[], before: SimulationState, after: SimulationState) => {
+        events.forEach(event => {
+          switch (event.type) {
+            case 'blockHit': {
+              const block = after.blocks[event.blockId];
+              const ballState = after.balls.find(b => b.id === event.ballId);
+              if (block.type === 'bumper' && ballState) {
+                // A small spark where the ball was kicked away.
+                particles.explode(ballState.x, ballState.y, blockColor(block.color), 10);
+              }
+              break;
+            }
+            case 'blockDestroyed':
+              particles.explode(event.x, event.y, blockColor(after.blocks[event.blockId].color));
+              break;
+            case 'blockRegenerated': {
+              const block = after.blocks[event.blockId];
+              particles.explode(block.x + block.width / 2, block.y + block.height / 2, blockColor(block.color), 12);
+              break;
+            }
+            case 'difficultyChange':
+              onDifficultyChange?.(event.difficulty);
+              break;
+            case 'powerUpCollected': {
+              const paddle = after.paddles[event.side];
+              particles.explode(paddle.x + paddle.width / 2, paddle.y + paddle.height / 2, POWER_UPS[event.kind].color, 16);
+              onPowerUpsChange?.(after.powerUps?.active ?? []);
+              break;
+            }
+            case 'powerUpExpired':
+              onPowerUpsChange?.(after.powerUps?.active ?? []);
+              break;
+            case 'shieldSaved': {
+              const ballState = after.balls.find(b => b.id === event.ballId);
+              if (ballState) particles.explode(ballState.x, ballState.y, POWER_UPS.shield.color, 20);
+              onPowerUpsChange?.(after.powerUps?.active ?? []);
+              break;
+            }
+          }
+        });
+        describeStep(events, before, after).forEach(event => gameEvents.emit(event));
       };
-      const explosionParticles: ExplosionParticle[] = [];
-
-      let glowCounter = 0; // For AI paddle glow animation
-      const GRAVITY = 0.05; // A little gravity for explosion particles
-
-      // Enhanced explosion to be more visually impactful
-      const createExplosion = (x: number, y: number, color: number) => {
-        const particleCount = 40; // More particles for a bigger burst
-        const accentColor1 = 0x00FFFF; // Cyan
-        const accentColor2 = 0xFFFFFF; // White flash for a brighter pop
-
-        for (let i = 0; i < particleCount; i++) {
-            const particleSize = Math.random() * 6 + 2; // Slightly larger, more varied pieces
-            
-            // Color variation for a more dynamic explosion
-            const rand = Math.random();
-            const particleColor = rand < 0.7 ? color : (rand < 0.9 ? accentColor1 : accentColor2);
-            
-            // Use rectangles for a "shattered block" effect
-            const particle = new Graphics()
-                .fill(particleColor)
-                .rect(0, 0, particleSize, particleSize);
-            
-            particle.pivot.set(particleSize / 2, particleSize / 2); // Set pivot for rotation
-            particle.rotation = Math.random() * Math.PI * 2;
-            particle.x = x;
-            particle.y = y;
-            
-            const angle = Math.random() * Math.PI * 2;
-            const speed = Math.random() * 4 + 2; // More explosive speed
-            const life = Math.random() * EXPLOSION_MAX_LIFE + (EXPLOSION_MAX_LIFE * 0.5);
-
-            (particle as ExplosionParticle).velocity = { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed };
-            (particle as ExplosionParticle).life = life;
-            (particle as ExplosionParticle).startLife = life; // Store initial life
-
-            app.stage.addChild(particle);
-            explosionParticles.push(particle as ExplosionParticle);
+
+      let accumulator = 0;
+      let previousState = initialState;
+      let reportedSecondsLeft: number | null = null;
+
+      // --- Fixed-Timestep Simulation ---
+      // Frame time accumulates and is consumed in whole simulation steps, so the rules play out
+      // identically at any refresh rate.
+      // Outside live play the simulation holds still and no time is banked for later. Returns the
+      // state drawn.
+      const stepLocally = (delta: number): SimulationState => {
+        if (phaseRef.current === 'inPlay' && !holdRef.current) {
+          accumulator += delta;
+        } else {
+          accumulator = 0;
         }
+        let steps = 0;
+        while (accumulator >= FIXED_TIMESTEP && steps < MAX_STEPS_PER_FRAME) {
+          let stepInput: SimulationInput;
+          if (replayPlayer) {
+            const recordedInput = replayPlayer.next();
+            if (!recordedInput) break; // The recording is over; leave the last frame on screen.
+            stepInput = recordedInput;
+          } else {
+            const { paddles } = simulation.getState();
+            stepInput = { playerX: input.paddleIntent(0, paddleCenter(paddles.player)) };
+            if (config.mode === GameMode.LocalVersus) {
+              stepInput.aiX = input.paddleIntent(1, paddleCenter(paddles.ai));
+            }
+            recorder?.record(stepInput);
+          }
+
+          const before = simulation.getState();
+          previousState = before;
+          const { state, events } = simulation.step(stepInput);
+          stats.record(state, events);
+          if (events.some(event => event.type === 'matchEnd')) {
+            onMatchStats?.(stats.finish());
+          }
+          // A serve teleports the ball back to the center; don't interpolate across it.
+          if (events.some(event => event.type === 'serve')) {
+            previousState = state;
+          }
+          handleEvents(events, before, state);
+          accumulator -= FIXED_TIMESTEP;
+          steps++;
+
+          const flowAction = flowActionFor(events);
+          if (flowAction) {
+            // Hold on the deciding step until the flow comes back to 'inPlay'.
+            holdRef.current = true;
+            previousState = state;
+            accumulator = 0;
+            onFlowAction(flowAction);
+            break;
+          }
+        }
+        if (steps === MAX_STEPS_PER_FRAME) {
+          accumulator = 0; // Drop the backlog after a long stall instead of fast-forwarding.
+        }
+        syncGraphics(previousState, simulation.getState(), Math.min(accumulator / FIXED_TIMESTEP, 1));
+        return simulation.getState();
       };
 
+      // --- Online Play ---
+      // The match server steps the simulation. The local paddle still reads input at the fixed step
+      // rate and moves straight away; everything else is drawn from interpolated snapshots, and
+      // their events play out as the render clock passes them.
+      const drawOnline = (client: OnlineClient, delta: number): SimulationState => {
+        if (phaseRef.current === 'inPlay') {
+          accumulator += delta;
+        } else {
+          accumulator = 0;
+        }
+        let steps = 0;
+        while (accumulator >= FIXED_TIMESTEP && steps < MAX_STEPS_PER_FRAME) {
+          const center = client.paddleCenter();
+          const intent = center === null ? undefined : input.paddleIntent(0, center);
+          if (intent !== undefined) client.movePaddle(intent);
+          accumulator -= FIXED_TIMESTEP;
+          steps++;
+        }
+        if (steps === MAX_STEPS_PER_FRAME) {
+          accumulator = 0;
+        }
+
+        const frame = client.snapshots.frame(performance.now());
+        if (!frame) return previousState;
+        frame.reached.forEach(({ before, after, events }) => handleEvents(events, before, after));
+        syncGraphics(frame.previous, frame.current, frame.alpha);
+        const { seat } = client.getStatus();
+        const localPaddle = client.localPaddle();
+        if (seat && localPaddle) paddleGraphics[seat].x = localPaddle.x;
+        previousState = frame.current;
+        return frame.current;
+      };
 
       app.ticker.add((ticker) => {
         if (!gameActive) return;
-        
+        const frameStart = performance.now();
+
         const delta = ticker.deltaTime;
         
-        // Animate AI Paddle Glow
+        // Animate Paddle Glows
         glowCounter += 0.05 * delta;
         const pulse = (Math.sin(glowCounter) + 1) / 2; // Oscillates between 0 and 1
-        aiPaddleGlow.alpha = 0.2 + pulse * 0.4; // Pulsates alpha between 0.2 and 0.6
-
-        // Ball movement
-        ball.x += ballVelocity.x * delta;
-        ball.y += ballVelocity.y * delta;
-
-        // --- All Collision Logic ---
-        let shouldNormalize = false;
-
-        // Wall collision
-        if (ball.x - BALL_RADIUS < 0 || ball.x + BALL_RADIUS > GAME_WIDTH) {
-          ballVelocity.x *= -1;
-          shouldNormalize = true; // Ensure consistent speed even after wall bounce
-        }
-
-        // Score
-        if (ball.y - BALL_RADIUS < 0) {
-          sounds.playerScore?.();
-          onScoreUpdate('player');
-          resetBall(1); // Serve towards player
-        } else if (ball.y + BALL_RADIUS > GAME_HEIGHT) {
-          sounds.aiScore?.();
-          onScoreUpdate('ai');
-          resetBall(-1); // Serve towards AI
-        }
-        
-        // Paddle collision
-        const paddles = [playerPaddle, aiPaddle];
-        paddles.forEach(paddle => {
-          if (checkCollision(ball, paddle as Graphics | Container)) {
-              sounds.paddleHit?.();
-              ballVelocity.y *= -1;
-              // Prevent sticking by moving ball outside paddle
-              if (paddle === playerPaddle) {
-                ball.y = paddle.y - BALL_RADIUS;
-              } else {
-                ball.y = paddle.y + paddleHeight + BALL_RADIUS;
-              }
-              
-              // Influence x velocity based on where it hit the paddle
-              const hitPoint = ball.x - (paddle.x + paddleWidth / 2);
-              ballVelocity.x += (hitPoint / (paddleWidth / 2)) * 2;
-              
-              // Increase speed
-              currentBallSpeed = Math.min(currentBallSpeed + speedIncrease, MAX_BALL_SPEED);
-              shouldNormalize = true;
-          }
+        Object.values(paddles).forEach(({ glow }) => {
+          if (!glow) return;
+          glow.alpha = reducedMotionRef.current ? 0.4 : 0.2 + pulse * 0.4; // Pulsates alpha between 0.2 and 0.6
         });
 
-        // Block collision with breakable logic
-        for (const block of allBlocks) {
-            if (!block.visible) continue;
-
-            const ballCenterX = ball.x;
-            const ballCenterY = ball.y;
-            const blockCenterX = block.x + BLOCK_WIDTH / 2;
-            const blockCenterY = block.y + BLOCK_HEIGHT / 2;
-            const dx = ballCenterX - blockCenterX;
-            const dy = ballCenterY - blockCenterY;
-            const combinedHalfWidths = BALL_RADIUS + BLOCK_WIDTH / 2;
-            const combinedHalfHeights = BALL_RADIUS + BLOCK_HEIGHT / 2;
-
-            if (Math.abs(dx) < combinedHalfWidths && Math.abs(dy) < combinedHalfHeights) {
-                const overlapX = combinedHalfWidths - Math.abs(dx);
-                const overlapY = combinedHalfHeights - Math.abs(dy);
-                
-                // Max bounce angle (e.g., 75 degrees)
-                const MAX_BOUNCE_ANGLE = (5 * Math.PI) / 12;
-
-                if (overlapY < overlapX) { // Vertical collision
-                    // Push ball out of block to prevent sticking
-                    ball.y += dy > 0 ? overlapY : -overlapY;
-                    
-                    const normalizedHitPointX = (ball.x - blockCenterX) / (BLOCK_WIDTH / 2);
-                    const bounceAngle = normalizedHitPointX * MAX_BOUNCE_ANGLE;
-                    
-                    // The direction of the bounce is determined by which side was hit
-                    const direction = Math.sign(dy);
-                    
-                    ballVelocity.x = currentBallSpeed * Math.sin(bounceAngle);
-                    ballVelocity.y = currentBallSpeed * Math.cos(bounceAngle) * direction;
-
-                } else { // Horizontal collision
-                    // Push ball out of block to prevent sticking
-                    ball.x += dx > 0 ? overlapX : -overlapX;
-                    
-                    const normalizedHitPointY = (ball.y - blockCenterY) / (BLOCK_HEIGHT / 2);
-                    const bounceAngle = normalizedHitPointY * MAX_BOUNCE_ANGLE;
-                    
-                    // The direction of the bounce is determined by which side was hit
-                    const direction = Math.sign(dx);
-                    
-                    ballVelocity.y = currentBallSpeed * Math.sin(bounceAngle);
-                    ballVelocity.x = currentBallSpeed * Math.cos(bounceAngle) * direction;
-                }
-
-                sounds.blockHit?.();
-                // No need to set shouldNormalize, speed is preserved by the angle calculation.
-
-                // Handle breakable blocks
-                block.health -= 1;
-                if (block.health <= 0) {
-                    block.visible = false;
-                    createExplosion(blockCenterX, blockCenterY, 0x4A5568);
-                } else {
-                    block.alpha = 0.3 + (block.health / BLOCK_MAX_HEALTH) * 0.7;
-                }
-                
-                break; // Handle only one block collision per frame
-            }
-        }
-
-        // Re-normalize the ball's speed after any collision to maintain consistency
-        if (shouldNormalize) {
-            const magnitude = Math.sqrt(ballVelocity.x**2 + ballVelocity.y**2);
-            if (magnitude > 0) {
-                ballVelocity.x = (ballVelocity.x / magnitude) * currentBallSpeed;
-                ballVelocity.y = (ballVelocity.y / magnitude) * currentBallSpeed;
-            }
-        }
-
-        // --- Ball Trail Effect ---
-        const trailParticle = new Graphics()
-            .fill(0x00FFFF)
-            .circle(0, 0, BALL_RADIUS);
-        trailParticle.x = ball.x;
-        trailParticle.y = ball.y;
-        trailParticle.alpha = 0.5;
-        (trailParticle as TrailParticle).life = TRAIL_MAX_LIFE;
-        app.stage.addChild(trailParticle);
-        trailParticles.push(trailParticle as TrailParticle);
-
-        for (let i = trailParticles.length - 1; i >= 0; i--) {
-            const particle = trailParticles[i];
-            particle.life -= 1 * delta;
-
-            if (particle.life <= 0) {
-                app.stage.removeChild(particle);
-                particle.destroy();
-                trailParticles.splice(i, 1);
-            } else {
-                const lifeRatio = particle.life / TRAIL_MAX_LIFE;
-                particle.alpha = lifeRatio * 0.5;
-                particle.scale.set(lifeRatio);
-            }
-        }
-        
-        // --- Explosion particle update ---
-        for (let i = explosionParticles.length - 1; i >= 0; i--) {
-            const particle = explosionParticles[i];
-            particle.life -= 1 * delta;
-
-            if (particle.life <= 0) {
-                app.stage.removeChild(particle);
-                particle.destroy();
-                explosionParticles.splice(i, 1);
-            } else {
-                particle.velocity.y += GRAVITY * delta; // Apply gravity for a more realistic arc
-                particle.x += particle.velocity.x * delta;
-                particle.y += particle.velocity.y * delta;
-                const lifeRatio = particle.life / particle.startLife;
-                particle.alpha = lifeRatio;
-                particle.scale.set(lifeRatio);
-                particle.rotation += 0.05 * delta; // Add a slow spin
-            }
+        const drawnState = online ? drawOnline(online, delta) : stepLocally(delta);
+        const secondsLeft = timeLeft(drawnState, simulationConfig.rules);
+        if (secondsLeft !== null && Math.ceil(secondsLeft) !== reportedSecondsLeft) {
+          reportedSecondsLeft = Math.ceil(secondsLeft);
+          onClockChange?.(reportedSecondsLeft);
         }
 
-        // --- AI Movement (Refined) ---
-        let aiTargetX = aiPaddle.x + paddleWidth / 2;
+        // --- Particles ---
+        // Every ball leaves its own trail.
+        ballGraphics.forEach(ball => particles.trail(ball.x, ball.y));
+        particles.update(delta);
 
-        if (ballVelocity.y < 0) {
-            const timeToReachPaddle = (aiPaddle.y + paddleHeight - ball.y) / -ballVelocity.y;
-            let predictedX = ball.x + ballVelocity.x * timeToReachPaddle;
-
-            if (predictedX < BALL_RADIUS) {
-                predictedX = BALL_RADIUS + (BALL_RADIUS - predictedX);
-            } else if (predictedX > GAME_WIDTH - BALL_RADIUS) {
-                predictedX = (GAME_WIDTH - BALL_RADIUS) - (predictedX - (GAME_WIDTH - BALL_RADIUS));
-            }
-            
-            const maxError = paddleWidth / 3 * (1 - speedIncrease);
-            const error = (Math.random() - 0.5) * maxError;
-            aiTargetX = predictedX + error;
-        } else {
-            aiTargetX = GAME_WIDTH / 2;
+        if (onFrameStatsRef.current) {
+          const updateMs = performance.now() - frameStart;
+          const frameStats = frameTimer.record(ticker.elapsedMS, updateMs, particles.count, particleQualityRef.current);
+          if (frameStats) onFrameStatsRef.current(frameStats);
         }
-        
-        const targetXForPaddle = aiTargetX - paddleWidth / 2;
-        let newAiX = aiPaddle.x + (targetXForPaddle - aiPaddle.x) * aiReactionSpeed * delta;
-        
-        if (newAiX < 0) newAiX = 0;
-        if (newAiX > GAME_WIDTH - paddleWidth) newAiX = GAME_WIDTH - paddleWidth;
-        aiPaddle.x = newAiX;
       });
     };
 
@@ -510,16 +545,12 @@ const Game: React.FC<GameProps> = ({ onScoreUpdate, initialBallSpeed, speedIncre
         cleanupPixiApp(pixiAppRef.current);
         pixiAppRef.current = null;
       }
-      // Cleanup Audio Context for robust resource management
-      if (audioContext) {
-        audioContext.close();
-        audioContext = null;
-      }
+      particleSystemRef.current = null;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Run only once
 
-  return <div ref={gameCanvasRef} style={{ width: GAME_WIDTH, height: GAME_HEIGHT }} />;
+  return <div ref={gameCanvasRef} style={{ width: GAME_WIDTH, height: GAME_HEIGHT, touchAction: 'none' }} />;
 };
 
 export default Game;
\ No newline at end of file
@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { DEFAULT_BINDINGS, INPUT_ACTION_LABELS, InputAction, InputBindings, formatKeyCode } from '../input/bindings';
+
+interface KeyBindingsEditorProps {
+  bindings: InputBindings;
+  onChange: (bindings: InputBindings) => void;
+}
+
+// Lists every keyboard action; click one, then press the key that should trigger it.
+export const KeyBindingsEditor: React.FC<KeyBindingsEditorProps> = ({ bindings, onChange }) => {
+  const [listeningFor, setListeningFor] = useState<InputAction | null>(null);
+
+  useEffect(() => {
+    if (!listeningFor) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopImmediatePropagation();
+      // Take the key away from any other action that had it, so one press never means two things.
+      const updated = Object.fromEntries(
+        (Object.keys(bindings) as InputAction[]).map(action => [action, bindings[action].filter(code => code !== event.code)]),
+      ) as InputBindings;
+      updated[listeningFor] = [event.code];
+      onChange(updated);
+      setListeningFor(null);
+    };
+    // Capture phase, so the input layer never sees the key being assigned.
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [listeningFor, bindings, onChange]);
+
+  return (
+    <div className="space-y-2">
+      {(Object.keys(INPUT_ACTION_LABELS) as InputAction[]).map(action => (
+        <div key={action} className="flex items-center justify-between text-sm">
+          <span className="text-slate-300">{INPUT_ACTION_LABELS[action]}</span>
+          <button
+            type="button"
+            onClick={() => setListeningFor(listeningFor === action ? null : action)}
+            className={`min-w-24 px-3 py-1 rounded-md border font-mono transition-colors duration-200
+              focus:outline-none focus:ring-2 focus:ring-cyan-500
+              ${listeningFor === action ? 'border-cyan-400 text-cyan-400 animate-pulse' : 'border-slate-600 text-white hover:border-slate-400'}`}
+          >
+            {listeningFor === action
+              ? 'Press a key…'
+              : bindings[action].map(formatKeyCode).join(' / ') || 'Unbound'}
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange(DEFAULT_BINDINGS)}
+        className="text-xs text-slate-400 hover:text-cyan-400"
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+};
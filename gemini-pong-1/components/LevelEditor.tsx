@@ -0,0 +1,586 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Application, Container, FederatedPointerEvent, Graphics, Text } from 'pixi.js';
+import {
+  GAME_WIDTH,
+  GAME_HEIGHT,
+  BALL_RADIUS,
+  BLOCK_WIDTH,
+  BLOCK_HEIGHT,
+  PADDLE_Y_OFFSET,
+  PADDLE_HEIGHT,
+} from '../constants';
+import {
+  BLOCK_TYPES,
+  BlockType,
+  DEFAULT_BLOCK_COLOR,
+  LevelBlock,
+  LevelDefinition,
+  DeflectorSlope,
+  readLevel,
+  validateLevel,
+  withTypeDefaults,
+} from '../game/levels';
+import { deleteSavedLevel, loadSavedLevels, saveLevel } from '../utils/levelStorage';
+import { downloadJson } from '../utils/files';
+import { drawBlock } from './drawBlock';
+import { useGameScale } from '../hooks/useGameScale';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Label } from './ui/Label';
+import { Select } from './ui/Select';
+import { Switch } from './ui/Switch';
+
+interface LevelEditorProps {
+  // The layout being edited. The app keeps it so it survives a test-play.
+  level: LevelDefinition;
+  onChange: (level: LevelDefinition) => void;
+  onTestPlay: () => void;
+  onExit: () => void;
+}
+
+// Blocks snap to this grid while they are placed, moved and resized.
+const GRID_SIZE = 10;
+// Size of the drag handle drawn on the selected block's bottom-right corner.
+const HANDLE_SIZE = 12;
+const NEW_BLOCK_HEALTH = 3;
+const MAX_BLOCK_HEALTH = 9;
+// Room for the toolbars above and below the stage.
+const EDITOR_CHROME_HEIGHT = 240;
+
+const BLOCK_TYPE_OPTIONS = Object.entries(BLOCK_TYPES).map(([value, { name }]) => ({ value, label: name }));
+
+const SLOPE_OPTIONS: { value: DeflectorSlope; label: string }[] = [
+  { value: 'rising', label: 'Rising ( / )' },
+  { value: 'falling', label: 'Falling ( \\ )' },
+];
+
+const snap = (value: number) => Math.round(value / GRID_SIZE) * GRID_SIZE;
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const contains = (block: LevelBlock, x: number, y: number) =>
+  x >= block.x && x <= block.x + block.width && y >= block.y && y <= block.y + block.height;
+
+const onHandle = (block: LevelBlock, x: number, y: number) =>
+  x >= block.x + block.width - HANDLE_SIZE && x <= block.x + block.width + HANDLE_SIZE / 2 &&
+  y >= block.y + block.height - HANDLE_SIZE && y <= block.y + block.height + HANDLE_SIZE / 2;
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT');
+
+type Drag = { mode: 'move' | 'resize'; index: number; offsetX: number; offsetY: number };
+
+// --- Level Editor ---
+// Click empty space to add a block, drag a block to move it, drag its corner handle to resize it,
+// and press Delete to remove it. Everything snaps to GRID_SIZE.
+export const LevelEditor: React.FC<LevelEditorProps> = ({ level, onChange, onTestPlay, onExit }) => {
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const pixiAppRef = useRef<Application | null>(null);
+  const blockLayerRef = useRef<Container | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [savedLevels, setSavedLevels] = useState(loadSavedLevels);
+  const [savedChoice, setSavedChoice] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const scale = useGameScale(EDITOR_CHROME_HEIGHT);
+
+  // Pixi handlers are registered once, so they read the latest props through refs.
+  const levelRef = useRef(level);
+  const selectedRef = useRef(selected);
+  const onChangeRef = useRef(onChange);
+  const dragRef = useRef<Drag | null>(null);
+  levelRef.current = level;
+  selectedRef.current = selected;
+  onChangeRef.current = onChange;
+
+  const problems = validateLevel(level);
+  if (!level.name.trim()) {
+    problems.unshift({ message: 'Give the level a name.', blocks: [] });
+  }
+  const selectedBlock = selected !== null ? level.blocks[selected] : undefined;
+
+  const updateBlock = (index: number, changes: Partial<LevelBlock>) => {
+    const current = levelRef.current;
+    onChangeRef.current({
+      ...current,
+      blocks: current.blocks.map((block, i) => (i === index ? { ...block, ...changes } : block)),
+    });
+  };
+
+  // Switching type fills in the new type's settings, and its color unless a custom one was picked.
+  const changeBlockType = (index: number, type: BlockType) => {
+    const block = levelRef.current.blocks[index];
+    const color = block.color === BLOCK_TYPES[block.type].color ? BLOCK_TYPES[type].color : block.color;
+    const current = levelRef.current;
+    onChangeRef.current({
+      ...current,
+      blocks: current.blocks.map((other, i) => (i === index ? withTypeDefaults({ ...block, type, color }) : other)),
+    });
+  };
+
+  const deleteBlock = (index: number) => {
+    const current = levelRef.current;
+    onChangeRef.current({ ...current, blocks: current.blocks.filter((_, i) => i !== index) });
+    setSelected(null);
+  };
+
+  useEffect(() => {
+    pixiAppRef.current?.renderer.resize(GAME_WIDTH, GAME_HEIGHT, scale * window.devicePixelRatio);
+  }, [scale]);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const cleanupPixiApp = (app: Application) => {
+      app.destroy({ removeView: true }, { children: true, texture: true, textureSource: true });
+    };
+
+    const initPixiApp = async () => {
+      if (!canvasRef.current || pixiAppRef.current) return;
+
+      const app = new Application();
+      await app.init({
+        width: GAME_WIDTH,
+        height: GAME_HEIGHT,
+        backgroundColor: 0x0A0F1A,
+        antialias: true,
+        resolution: scale * window.devicePixelRatio,
+        autoDensity: true,
+      });
+
+      if (!isMounted || !canvasRef.current) {
+        cleanupPixiApp(app);
+        return;
+      }
+      pixiAppRef.current = app;
+      canvasRef.current.appendChild(app.canvas);
+
+      // --- Guides ---
+      const guides = new Graphics();
+      for (let x = 0; x <= GAME_WIDTH; x += GRID_SIZE) {
+        guides.rect(x, 0, 1, GAME_HEIGHT).fill({ color: 0x4A5568, alpha: x % (GRID_SIZE * 5) === 0 ? 0.35 : 0.12 });
+      }
+      for (let y = 0; y <= GAME_HEIGHT; y += GRID_SIZE) {
+        guides.rect(0, y, GAME_WIDTH, 1).fill({ color: 0x4A5568, alpha: y % (GRID_SIZE * 5) === 0 ? 0.35 : 0.12 });
+      }
+      // Where the paddles travel, so blocks are not placed over them by accident.
+      const laneHeight = PADDLE_Y_OFFSET + PADDLE_HEIGHT;
+      guides.rect(0, 0, GAME_WIDTH, laneHeight).fill({ color: 0x00FFFF, alpha: 0.06 });
+      guides.rect(0, GAME_HEIGHT - laneHeight, GAME_WIDTH, laneHeight).fill({ color: 0xFF007F, alpha: 0.06 });
+      // The ball is served from here, so it must stay clear.
+      guides.circle(GAME_WIDTH / 2, GAME_HEIGHT / 2, BALL_RADIUS).stroke({ color: 0xFFFFFF, width: 1, alpha: 0.6 });
+      app.stage.addChild(guides);
+
+      const blockLayer = new Container();
+      app.stage.addChild(blockLayer);
+      blockLayerRef.current = blockLayer;
+
+      // --- Pointer Editing ---
+      app.stage.eventMode = 'static';
+      app.stage.hitArea = app.screen;
+      app.stage.cursor = 'crosshair';
+
+      const blockIndexAt = (x: number, y: number) => {
+        const { blocks } = levelRef.current;
+        for (let i = blocks.length - 1; i >= 0; i--) {
+          if (contains(blocks[i], x, y)) return i;
+        }
+        return -1;
+      };
+
+      app.stage.on('pointerdown', (event: FederatedPointerEvent) => {
+        const { x, y } = event.global;
+        const { blocks } = levelRef.current;
+        const current = selectedRef.current;
+
+        if (current !== null && blocks[current] && onHandle(blocks[current], x, y)) {
+          dragRef.current = { mode: 'resize', index: current, offsetX: 0, offsetY: 0 };
+          return;
+        }
+
+        const index = blockIndexAt(x, y);
+        if (index >= 0) {
+          setSelected(index);
+          dragRef.current = { mode: 'move', index, offsetX: x - blocks[index].x, offsetY: y - blocks[index].y };
+          return;
+        }
+
+        const block: LevelBlock = {
+          type: 'breakable',
+          x: clamp(snap(x - BLOCK_WIDTH / 2), 0, GAME_WIDTH - BLOCK_WIDTH),
+          y: clamp(snap(y - BLOCK_HEIGHT / 2), 0, GAME_HEIGHT - BLOCK_HEIGHT),
+          width: BLOCK_WIDTH,
+          height: BLOCK_HEIGHT,
+          health: NEW_BLOCK_HEALTH,
+          color: DEFAULT_BLOCK_COLOR,
+        };
+        onChangeRef.current({ ...levelRef.current, blocks: [...blocks, block] });
+        setSelected(blocks.length);
+        // Keep the pointer down to drag the new block straight into place.
+        dragRef.current = { mode: 'move', index: blocks.length, offsetX: x - block.x, offsetY: y - block.y };
+      });
+
+      app.stage.on('pointermove', (event: FederatedPointerEvent) => {
+        const { x, y } = event.global;
+        const drag = dragRef.current;
+        const block = drag && levelRef.current.blocks[drag.index];
+        if (!drag || !block) {
+          const current = selectedRef.current;
+          const { blocks } = levelRef.current;
+          if (current !== null && blocks[current] && onHandle(blocks[current], x, y)) {
+            app.stage.cursor = 'nwse-resize';
+          } else {
+            app.stage.cursor = blockIndexAt(x, y) >= 0 ? 'move' : 'crosshair';
+          }
+          return;
+        }
+
+        if (drag.mode === 'move') {
+          updateBlock(drag.index, {
+            x: clamp(snap(x - drag.offsetX), 0, GAME_WIDTH - block.width),
+            y: clamp(snap(y - drag.offsetY), 0, GAME_HEIGHT - block.height),
+          });
+        } else {
+          updateBlock(drag.index, {
+            width: clamp(snap(x - block.x), GRID_SIZE, GAME_WIDTH - block.x),
+            height: clamp(snap(y - block.y), GRID_SIZE, GAME_HEIGHT - block.y),
+          });
+        }
+      });
+
+      const endDrag = () => {
+        dragRef.current = null;
+      };
+      app.stage.on('pointerup', endDrag);
+      app.stage.on('pointerupoutside', endDrag);
+
+      setIsReady(true);
+    };
+
+    initPixiApp();
+
+    return () => {
+      isMounted = false;
+      blockLayerRef.current = null;
+      if (pixiAppRef.current) {
+        cleanupPixiApp(pixiAppRef.current);
+        pixiAppRef.current = null;
+      }
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Redraw the blocks whenever the layout or the selection changes.
+  useEffect(() => {
+    const blockLayer = blockLayerRef.current;
+    if (!isReady || !blockLayer) return;
+
+    blockLayer.removeChildren().forEach(child => child.destroy({ children: true }));
+    const invalid = new Set(problems.flatMap(problem => problem.blocks));
+
+    level.blocks.forEach((block, index) => {
+      // Moving blocks show their far position as an outline, joined to the start by the path.
+      if (block.type === 'moving' && block.path) {
+        const { path } = block;
+        const track = new Graphics()
+          .roundRect(block.x + path.x, block.y + path.y, block.width, block.height, 5)
+          .stroke({ color: block.color, width: 1, alpha: 0.6 })
+          .moveTo(block.x + block.width / 2, block.y + block.height / 2)
+          .lineTo(block.x + path.x + block.width / 2, block.y + path.y + block.height / 2)
+          .stroke({ color: block.color, width: 1, alpha: 0.6 });
+        blockLayer.addChild(track);
+      }
+
+      const graphic = drawBlock(new Graphics(), block);
+      graphic.x = block.x;
+      graphic.y = block.y;
+      blockLayer.addChild(graphic);
+
+      const outline = new Graphics();
+      if (index === selected) {
+        outline.rect(block.x, block.y, block.width, block.height).stroke({ color: 0x00FFFF, width: 2 });
+        outline
+          .rect(block.x + block.width - HANDLE_SIZE / 2, block.y + block.height - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE)
+          .fill(0x00FFFF);
+      } else if (invalid.has(index)) {
+        outline.rect(block.x, block.y, block.width, block.height).stroke({ color: 0xF87171, width: 2 });
+      }
+      blockLayer.addChild(outline);
+
+      if (!BLOCK_TYPES[block.type].breakable) return;
+      const label = new Text({
+        text: String(block.health),
+        style: { fill: 0xFFFFFF, fontSize: 14, fontFamily: 'sans-serif', fontWeight: 'bold' },
+      });
+      label.anchor.set(0.5);
+      label.x = block.x + block.width / 2;
+      label.y = block.y + block.height / 2;
+      blockLayer.addChild(label);
+    });
+    // `problems` is derived from `level`.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isReady, level, selected]);
+
+  // Keyboard shortcuts: Delete removes the selected block, Escape deselects it.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTextField(event.target) || selectedRef.current === null) return;
+      if (event.key === 'Delete' || event.key === 'Backspace') {
+        event.preventDefault();
+        deleteBlock(selectedRef.current);
+      } else if (event.key === 'Escape') {
+        setSelected(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleSave = () => {
+    setSavedLevels(saveLevel(level));
+    setSavedChoice(level.name);
+    setMessage(`Saved "${level.name}" in this browser.`);
+  };
+
+  const handleLoadSaved = () => {
+    const saved = savedLevels.find(entry => entry.name === savedChoice);
+    if (!saved) return;
+    onChange(structuredClone(saved));
+    setSelected(null);
+    setMessage(`Loaded "${saved.name}".`);
+  };
+
+  const handleDeleteSaved = () => {
+    if (!savedChoice) return;
+    setSavedLevels(deleteSavedLevel(savedChoice));
+    setMessage(`Deleted "${savedChoice}" from this browser.`);
+    setSavedChoice('');
+  };
+
+  const handleExport = () => {
+    const slug = level.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'level';
+    downloadJson(`ai-pong-level-${slug}.json`, level);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = readLevel(JSON.parse(await file.text()));
+      onChange(imported);
+      setSelected(null);
+      setMessage(`Imported "${imported.name}".`);
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'Could not read level file.');
+    }
+  };
+
+  const savedOptions = [
+    { value: '', label: savedLevels.length ? 'Saved levels…' : 'No saved levels' },
+    ...savedLevels.map(saved => ({ value: saved.name, label: saved.name })),
+  ];
+
+  return (
+    <div className="flex flex-col items-center gap-3 w-full">
+      <div className="flex flex-wrap items-end gap-3" style={{ width: GAME_WIDTH * scale }}>
+        <div className="space-y-1 text-left w-48">
+          <Label htmlFor="level-name">Name</Label>
+          <Input
+            id="level-name"
+            maxLength={32}
+            value={level.name}
+            onChange={(event) => onChange({ ...level, name: event.target.value })}
+          />
+        </div>
+        <div className="space-y-1 text-left flex-1 min-w-48">
+          <Label htmlFor="level-description">Description</Label>
+          <Input
+            id="level-description"
+            maxLength={120}
+            value={level.description}
+            onChange={(event) => onChange({ ...level, description: event.target.value })}
+          />
+        </div>
+        <div className="flex items-center gap-2 h-10">
+          <Label htmlFor="level-regenerate">Regenerate after points</Label>
+          <Switch
+            id="level-regenerate"
+            checked={level.regenerate}
+            onCheckedChange={(regenerate) => onChange({ ...level, regenerate })}
+          />
+        </div>
+      </div>
+
+      <div
+        className="relative bg-black shadow-2xl shadow-cyan-500/20 border-2 border-slate-700 overflow-hidden"
+        style={{ width: GAME_WIDTH * scale, height: GAME_HEIGHT * scale }}
+      >
+        <div
+          ref={canvasRef}
+          className="absolute top-0 left-0"
+          style={{ width: GAME_WIDTH, height: GAME_HEIGHT, transform: `scale(${scale})`, transformOrigin: 'top left', touchAction: 'none' }}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 text-left" style={{ width: GAME_WIDTH * scale }}>
+        {selectedBlock && selected !== null ? (
+          <>
+            <div className="space-y-1 w-36">
+              <Label htmlFor="block-type">Type</Label>
+              <Select
+                id="block-type"
+                options={BLOCK_TYPE_OPTIONS}
+                title={BLOCK_TYPES[selectedBlock.type].description}
+                value={selectedBlock.type}
+                onValueChange={(type) => changeBlockType(selected, type as BlockType)}
+              />
+            </div>
+            {BLOCK_TYPES[selectedBlock.type].breakable && (
+              <div className="space-y-1 w-20">
+                <Label htmlFor="block-health">Health</Label>
+                <Input
+                  id="block-health"
+                  type="number"
+                  min={1}
+                  max={MAX_BLOCK_HEALTH}
+                  value={selectedBlock.health}
+                  onChange={(event) => {
+                    const health = Math.round(Number(event.target.value));
+                    if (health >= 1) updateBlock(selected, { health: Math.min(health, MAX_BLOCK_HEALTH) });
+                  }}
+                />
+              </div>
+            )}
+            {selectedBlock.path && (
+              <>
+                <div className="space-y-1 w-20">
+                  <Label htmlFor="block-travel-x">Travel X</Label>
+                  <Input
+                    id="block-travel-x"
+                    type="number"
+                    step={GRID_SIZE}
+                    value={selectedBlock.path.x}
+                    onChange={(event) => updateBlock(selected, { path: { ...selectedBlock.path!, x: snap(Number(event.target.value)) } })}
+                  />
+                </div>
+                <div className="space-y-1 w-20">
+                  <Label htmlFor="block-travel-y">Travel Y</Label>
+                  <Input
+                    id="block-travel-y"
+                    type="number"
+                    step={GRID_SIZE}
+                    value={selectedBlock.path.y}
+                    onChange={(event) => updateBlock(selected, { path: { ...selectedBlock.path!, y: snap(Number(event.target.value)) } })}
+                  />
+                </div>
+                <div className="space-y-1 w-24">
+                  <Label htmlFor="block-period">Period (s)</Label>
+                  <Input
+                    id="block-period"
+                    type="number"
+                    min={0.5}
+                    step={0.5}
+                    value={selectedBlock.path.period}
+                    onChange={(event) => {
+                      const period = Number(event.target.value);
+                      if (period > 0) updateBlock(selected, { path: { ...selectedBlock.path!, period } });
+                    }}
+                  />
+                </div>
+              </>
+            )}
+            {selectedBlock.regrowDelay !== undefined && (
+              <div className="space-y-1 w-24">
+                <Label htmlFor="block-regrow">Regrow (s)</Label>
+                <Input
+                  id="block-regrow"
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={selectedBlock.regrowDelay}
+                  onChange={(event) => {
+                    const regrowDelay = Number(event.target.value);
+                    if (regrowDelay >= 0) updateBlock(selected, { regrowDelay });
+                  }}
+                />
+              </div>
+            )}
+            {selectedBlock.slope && (
+              <div className="space-y-1 w-32">
+                <Label htmlFor="block-slope">Slope</Label>
+                <Select
+                  id="block-slope"
+                  options={SLOPE_OPTIONS}
+                  value={selectedBlock.slope}
+                  onValueChange={(slope) => updateBlock(selected, { slope: slope as DeflectorSlope })}
+                />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="block-color">Color</Label>
+              <input
+                id="block-color"
+                type="color"
+                value={selectedBlock.color}
+                onChange={(event) => updateBlock(selected, { color: event.target.value.toUpperCase() })}
+                className="block h-10 w-14 rounded-md border border-slate-600 bg-slate-900/60 cursor-pointer"
+              />
+            </div>
+            <p className="text-xs text-slate-400 h-10 flex items-center">
+              {selectedBlock.width}×{selectedBlock.height} at ({selectedBlock.x}, {selectedBlock.y})
+            </p>
+            <button
+              type="button"
+              onClick={() => deleteBlock(selected)}
+              className="h-10 px-3 text-sm text-red-400 hover:text-red-300"
+            >
+              Delete block
+            </button>
+          </>
+        ) : (
+          <p className="text-sm text-slate-400 h-10 flex items-center">
+            Click empty space to add a block. Drag to move, drag the corner handle to resize, Delete to remove.
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3" style={{ width: GAME_WIDTH * scale }}>
+        <div className="w-44">
+          <Select options={savedOptions} value={savedChoice} onValueChange={setSavedChoice} aria-label="Saved levels" />
+        </div>
+        <Button onClick={handleLoadSaved} disabled={!savedChoice} variant="secondary" className="px-4 py-2 text-sm disabled:opacity-50">
+          Load
+        </Button>
+        <button
+          type="button"
+          onClick={handleDeleteSaved}
+          disabled={!savedChoice}
+          className="text-sm text-slate-400 hover:text-red-400 disabled:opacity-50"
+        >
+          Delete
+        </button>
+        <Button onClick={handleSave} disabled={!level.name.trim()} variant="secondary" className="px-4 py-2 text-sm disabled:opacity-50">
+          Save
+        </Button>
+        <Button onClick={handleExport} variant="secondary" className="px-4 py-2 text-sm">Export</Button>
+        <label className="text-sm text-slate-400 hover:text-cyan-400 cursor-pointer">
+          Import
+          <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </label>
+        <div className="flex-1" />
+        <Button onClick={onExit} variant="secondary" className="px-4 py-2 text-sm">Back</Button>
+        <Button onClick={onTestPlay} disabled={problems.length > 0} className="px-4 py-2 text-sm disabled:opacity-50 disabled:hover:scale-100">
+          Test Play
+        </Button>
+      </div>
+
+      {(problems.length > 0 || message) && (
+        <div className="text-sm text-left space-y-1" style={{ width: GAME_WIDTH * scale }}>
+          {problems.map(problem => <p key={problem.message} className="text-red-400">{problem.message}</p>)}
+          {message && <p className="text-slate-400">{message}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,256 @@
+import React, { useEffect, useState } from 'react';
+import { GameMode } from '../types';
+import { AI_CONTROLLERS } from '../game/ai/controllers';
+import { AIPersonality } from '../game/ai/types';
+import {
+  ALL_RESULTS,
+  HistoryFilter,
+  MatchResult,
+  ResultFilter,
+  createHistoryFile,
+  filterResults,
+  highScores,
+  parseHistoryFile,
+  recordsByDifficulty,
+} from '../game/history';
+import { describeRules } from '../game/rules';
+import { clearMatchHistory, importMatchResults, loadMatchHistory } from '../utils/historyStorage';
+import { downloadJson } from '../utils/files';
+import { Button } from './ui/Button';
+import { Card } from './ui/Card';
+import { Label } from './ui/Label';
+import { Select } from './ui/Select';
+import { MatchSummary, formatTime } from './MatchSummary';
+
+interface MatchHistoryProps {
+  onExit: () => void;
+}
+
+const MODE_OPTIONS = [
+  { value: 'all', label: 'All modes' },
+  { value: String(GameMode.VsAI), label: 'Single Player (vs AI)' },
+  { value: String(GameMode.LocalVersus), label: 'Two Players' },
+];
+
+const OPPONENT_OPTIONS = [
+  { value: 'all', label: 'Any opponent' },
+  ...Object.values(AI_CONTROLLERS).map(controller => ({ value: controller.id, label: controller.name })),
+];
+
+const RESULT_OPTIONS: { value: ResultFilter; label: string }[] = [
+  { value: 'all', label: 'All results' },
+  { value: 'win', label: 'Wins (bottom player)' },
+  { value: 'loss', label: 'Losses (bottom player)' },
+];
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const describeOpponent = ({ settings, names }: MatchResult) => settings.mode === GameMode.VsAI
+  ? `${AI_CONTROLLERS[settings.ai.personality].name} · ${Math.round(settings.ai.difficulty * 100)}%${settings.ai.adaptive ? ' adaptive' : ''}`
+  : `${names.player} vs ${names.ai}`;
+
+const describeScore = ({ settings, sets, setScores }: MatchResult) => {
+  const games = setScores.map(set => `${set.player}–${set.ai}`).join(', ');
+  return settings.rules.sets > 1 ? `Sets ${sets.player}–${sets.ai} (${games})` : games;
+};
+
+const describeOutcome = ({ settings, names, winner }: MatchResult) => settings.mode === GameMode.VsAI
+  ? (winner === 'player' ? 'Win' : 'Loss')
+  : `${names[winner]} won`;
+
+const formatStreak = (streak: number) => (streak === 0 ? '–' : `${Math.abs(streak)} ${streak > 0 ? 'W' : 'L'}`);
+
+// Every finished match in this browser, with streaks against the AI, a high-score table and
+// export/import so results from several machines can be pooled.
+export const MatchHistory: React.FC<MatchHistoryProps> = ({ onExit }) => {
+  const [results, setResults] = useState<MatchResult[] | null>(null);
+  const [filter, setFilter] = useState<HistoryFilter>(ALL_RESULTS);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [confirmClear, setConfirmClear] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const reload = () => loadMatchHistory()
+    .then(setResults)
+    .catch(() => {
+      setResults([]);
+      setMessage('Match history is not available in this browser.');
+    });
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const updateFilter = (changes: Partial<HistoryFilter>) => setFilter(current => ({ ...current, ...changes }));
+
+  const handleExport = () => {
+    if (results) downloadJson('ai-pong-history.json', createHistoryFile(results));
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseHistoryFile(await file.text());
+      const added = await importMatchResults(imported);
+      setMessage(`Imported ${added} new match${added === 1 ? '' : 'es'}.`);
+      await reload();
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'Could not read history file.');
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirmClear) {
+      setConfirmClear(true);
+      return;
+    }
+    setConfirmClear(false);
+    await clearMatchHistory();
+    setMessage('Match history cleared.');
+    await reload();
+  };
+
+  const shown = results ? filterResults(results, filter) : [];
+  const difficultyRecords = results ? recordsByDifficulty(filterResults(results, { ...filter, result: 'all' })) : [];
+  const scores = results ? highScores(filterResults(results, { ...filter, result: 'all' })) : [];
+
+  return (
+    <Card className="w-full max-w-3xl">
+      <h1 className="text-4xl font-bold text-cyan-400 tracking-wider">Match History</h1>
+      {message && <p className="text-sm text-slate-400 mt-2">{message}</p>}
+
+      <div className="w-full flex flex-wrap gap-4 mt-6 text-left">
+        <div className="space-y-2 flex-1 min-w-40">
+          <Label htmlFor="history-mode">Mode</Label>
+          <Select
+            id="history-mode"
+            options={MODE_OPTIONS}
+            value={String(filter.mode)}
+            onValueChange={(value) => updateFilter({ mode: value === 'all' ? 'all' : Number(value) as GameMode })}
+          />
+        </div>
+        <div className="space-y-2 flex-1 min-w-40">
+          <Label htmlFor="history-opponent">Opponent</Label>
+          <Select
+            id="history-opponent"
+            options={OPPONENT_OPTIONS}
+            value={filter.personality}
+            onValueChange={(value) => updateFilter({ personality: value as AIPersonality | 'all' })}
+          />
+        </div>
+        <div className="space-y-2 flex-1 min-w-40">
+          <Label htmlFor="history-result">Result</Label>
+          <Select
+            id="history-result"
+            options={RESULT_OPTIONS}
+            value={filter.result}
+            onValueChange={(value) => updateFilter({ result: value as ResultFilter })}
+          />
+        </div>
+      </div>
+
+      <div className="w-full grid gap-6 mt-6 md:grid-cols-2 text-sm text-slate-300">
+        <section className="text-left">
+          <h2 className="text-xs font-semibold uppercase tracking-wider text-slate-400 mb-2">Against the AI</h2>
+          {difficultyRecords.length === 0 ? (
+            <p className="text-slate-500">No matches against the AI yet.</p>
+          ) : (
+            <table className="w-full">
+              <thead>
+                <tr className="text-xs text-slate-400">
+                  <th className="text-left font-medium">Difficulty</th>
+                  <th className="text-right font-medium">W–L</th>
+                  <th className="text-right font-medium">Streak</th>
+                  <th className="text-right font-medium">Best</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {difficultyRecords.map(record => (
+                  <tr key={record.difficulty}>
+                    <td>{record.difficulty}%</td>
+                    <td className="text-right">{record.wins}–{record.losses}</td>
+                    <td className={`text-right ${record.currentStreak > 0 ? 'text-pink-500' : 'text-cyan-400'}`}>
+                      {formatStreak(record.currentStreak)}
+                    </td>
+                    <td className="text-right">{record.longestWinStreak} W</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+        <section className="text-left">
+          <h2 className="text-xs font-semibold uppercase tracking-wider text-slate-400 mb-2">High Scores</h2>
+          {scores.length === 0 ? (
+            <p className="text-slate-500">Play against the AI to set a high score.</p>
+          ) : (
+            <ol className="space-y-1">
+              {scores.map(({ score, result }, index) => (
+                <li key={result.id} className="flex justify-between gap-2" title={formatDate(result.playedAt)}>
+                  <span className="w-5 text-slate-500">{index + 1}.</span>
+                  <span className="flex-1 truncate">{describeOpponent(result)}</span>
+                  <span className="font-mono text-cyan-400">{score}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+      </div>
+
+      <section className="w-full mt-6 text-left text-sm text-slate-300">
+        <h2 className="text-xs font-semibold uppercase tracking-wider text-slate-400 mb-2">
+          Matches {results && `(${shown.length} of ${results.length})`}
+        </h2>
+        {results === null ? (
+          <p className="text-slate-500">Loading…</p>
+        ) : shown.length === 0 ? (
+          <p className="text-slate-500">{results.length ? 'No matches fit these filters.' : 'Finished matches will appear here.'}</p>
+        ) : (
+          <ul className="divide-y divide-slate-700">
+            {shown.map(result => (
+              <li key={result.id} className="py-2">
+                <button
+                  type="button"
+                  onClick={() => setExpanded(id => (id === result.id ? null : result.id))}
+                  className="w-full flex flex-wrap items-baseline gap-x-4 text-left hover:text-white"
+                  aria-expanded={expanded === result.id}
+                >
+                  <span className="w-40 text-slate-400">{formatDate(result.playedAt)}</span>
+                  <span className="flex-1">{describeOpponent(result)}</span>
+                  <span className="font-mono">{describeScore(result)}</span>
+                  <span className={`w-24 text-right font-semibold ${result.winner === 'player' ? 'text-pink-500' : 'text-cyan-400'}`}>
+                    {describeOutcome(result)}
+                  </span>
+                </button>
+                {expanded === result.id && (
+                  <div className="mt-3 space-y-3">
+                    <p className="text-xs text-slate-400">
+                      {result.settings.levelName} · {describeRules(result.settings.rules)} · {formatTime(result.stats.durationSeconds)}
+                    </p>
+                    <MatchSummary stats={result.stats} names={result.names} />
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <div className="flex flex-wrap justify-center gap-4 mt-8">
+        <Button onClick={onExit}>Main Menu</Button>
+        <Button onClick={handleExport} variant="secondary" disabled={!results?.length} className="disabled:opacity-50 disabled:hover:scale-100">
+          Export
+        </Button>
+        <label className="px-8 py-3 text-lg font-semibold rounded-md bg-slate-700 text-white hover:bg-slate-600 cursor-pointer transition-all duration-300 transform hover:scale-105">
+          Import
+          <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </label>
+        <Button onClick={handleClear} variant="secondary" disabled={!results?.length} className="disabled:opacity-50 disabled:hover:scale-100">
+          {confirmClear ? 'Really clear?' : 'Clear'}
+        </Button>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,96 @@
+import React from 'react';
+import {
+  MatchRules,
+  SERVE_RULES,
+  SET_OPTIONS,
+  ServeRule,
+  TARGET_SCORE_OPTIONS,
+  TIME_LIMIT_OPTIONS,
+} from '../game/rules';
+import { Label } from './ui/Label';
+import { Select } from './ui/Select';
+import { Switch } from './ui/Switch';
+
+interface MatchRulesEditorProps {
+  rules: MatchRules;
+  onChange: (rules: MatchRules) => void;
+}
+
+const TARGET_OPTIONS = TARGET_SCORE_OPTIONS.map(score => ({ value: String(score), label: `${score} points` }));
+
+const SETS_OPTIONS = SET_OPTIONS.map(sets => ({
+  value: String(sets),
+  label: sets === 1 ? 'Single set' : `Best of ${sets}`,
+}));
+
+const TIME_OPTIONS = [
+  { value: 'none', label: 'No limit' },
+  ...TIME_LIMIT_OPTIONS.map(seconds => ({ value: String(seconds), label: `${seconds / 60} min` })),
+];
+
+const SERVE_OPTIONS = (Object.keys(SERVE_RULES) as ServeRule[]).map(rule => ({
+  value: rule,
+  label: SERVE_RULES[rule].name,
+}));
+
+// Target score, deuce, clock, sets and serve for the next match.
+export const MatchRulesEditor: React.FC<MatchRulesEditorProps> = ({ rules, onChange }) => {
+  const update = (changes: Partial<MatchRules>) => onChange({ ...rules, ...changes });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex space-x-4 text-left">
+        <div className="space-y-2 flex-1">
+          <Label htmlFor="target-score">Points per set</Label>
+          <Select
+            id="target-score"
+            options={TARGET_OPTIONS}
+            value={String(rules.targetScore)}
+            onValueChange={(value) => update({ targetScore: Number(value) })}
+          />
+        </div>
+        <div className="space-y-2 flex-1">
+          <Label htmlFor="sets">Sets</Label>
+          <Select
+            id="sets"
+            options={SETS_OPTIONS}
+            value={String(rules.sets)}
+            onValueChange={(value) => update({ sets: Number(value) })}
+          />
+        </div>
+      </div>
+      <div className="flex space-x-4 text-left">
+        <div className="space-y-2 flex-1">
+          <Label htmlFor="time-limit">Time limit</Label>
+          <Select
+            id="time-limit"
+            options={TIME_OPTIONS}
+            value={rules.timeLimit === null ? 'none' : String(rules.timeLimit)}
+            onValueChange={(value) => update({ timeLimit: value === 'none' ? null : Number(value) })}
+          />
+        </div>
+        <div className="space-y-2 flex-1">
+          <Label htmlFor="serve-rule">Serve</Label>
+          <Select
+            id="serve-rule"
+            options={SERVE_OPTIONS}
+            value={rules.serve}
+            onValueChange={(value) => update({ serve: value as ServeRule })}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-slate-400 text-left">
+        {SERVE_RULES[rules.serve].description}
+        {rules.timeLimit !== null && ' When time runs out the leader takes the set; a tie goes to sudden death.'}
+      </p>
+      <div className="flex items-center justify-between text-left">
+        <Label htmlFor="win-by-two">Win by two</Label>
+        <Switch
+          id="win-by-two"
+          checked={rules.winByTwo}
+          onCheckedChange={(winByTwo) => update({ winByTwo })}
+        />
+      </div>
+    </div>
+  );
+};
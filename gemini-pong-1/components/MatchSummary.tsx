@@ -0,0 +1,91 @@
+import React from 'react';
+import { PlayerNames, Score } from '../types';
+import { STEPS_PER_SECOND } from '../constants';
+import { MatchStats, PointRecord } from '../game/stats';
+
+interface MatchSummaryProps {
+  stats: MatchStats;
+  names: PlayerNames;
+}
+
+export const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+const SIDE_COLORS: Record<keyof Score, string> = {
+  player: 'bg-pink-500',
+  ai: 'bg-cyan-400',
+};
+
+const describePoint = (point: PointRecord, names: PlayerNames) =>
+  `${formatTime(point.tick / STEPS_PER_SECOND)} · ${names[point.scorer]} · ${point.score.player}–${point.score.ai}` +
+  ` · ${point.route === 'block' ? 'off a block' : 'direct'} · ${point.rallyHits} hit${point.rallyHits === 1 ? '' : 's'}`;
+
+// Post-match numbers side by side, then every point in order, grouped by set.
+export const MatchSummary: React.FC<MatchSummaryProps> = ({ stats, names }) => {
+  const sideRows: [string, Score][] = [
+    ['Paddle hits', stats.paddleHits],
+    ['Blocks broken', stats.blocksBroken],
+    ['Direct points', stats.directPoints],
+    ['Points off blocks', stats.blockPoints],
+  ];
+  const matchRows: [string, string][] = [
+    ['Duration', formatTime(stats.durationSeconds)],
+    ['Rallies', String(stats.rallies)],
+    ['Longest rally', `${stats.longestRally} hits`],
+    ['Average rally', `${stats.averageRally.toFixed(1)} hits`],
+    ['Average ball speed', `${Math.round(stats.averageSpeed)} px/s`],
+    ['Top ball speed', `${Math.round(stats.topSpeed)} px/s`],
+  ];
+  const sets = [...new Set(stats.timeline.map(point => point.set))];
+
+  return (
+    <div className="w-full text-sm text-slate-300 space-y-4">
+      <table className="w-full">
+        <thead>
+          <tr className="text-xs uppercase tracking-wider">
+            <th className="text-left font-semibold text-pink-500">{names.player}</th>
+            <th />
+            <th className="text-right font-semibold text-cyan-400">{names.ai}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sideRows.map(([label, score]) => (
+            <tr key={label}>
+              <td className="text-left font-mono">{score.player}</td>
+              <td className="text-center text-slate-400">{label}</td>
+              <td className="text-right font-mono">{score.ai}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+        {matchRows.map(([label, value]) => (
+          <div key={label} className="flex justify-between">
+            <dt className="text-slate-400">{label}</dt>
+            <dd className="font-mono">{value}</dd>
+          </div>
+        ))}
+      </dl>
+      {sets.length > 0 && (
+        <div className="space-y-2 text-left">
+          <h2 className="text-xs font-semibold uppercase tracking-wider text-slate-400">Point by point</h2>
+          {sets.map(set => (
+            <div key={set} className="flex items-center gap-2">
+              {sets.length > 1 && <span className="w-10 shrink-0 text-xs text-slate-400">Set {set}</span>}
+              <ol className="flex flex-wrap gap-1">
+                {stats.timeline.filter(point => point.set === set).map(point => (
+                  // Points off a block are diamonds, direct points are circles.
+                  <li
+                    key={point.tick + point.scorer}
+                    title={describePoint(point, names)}
+                    className={`w-3 h-3 ${SIDE_COLORS[point.scorer]} ${point.route === 'block' ? 'rotate-45 scale-75' : 'rounded-full'}`}
+                  />
+                ))}
+              </ol>
+            </div>
+          ))}
+          <p className="text-xs text-slate-500">● direct · ◆ off a block. Hover a point for details.</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { OnlineStatus, defaultServerUrl } from '../net/OnlineClient';
+import { MAX_NAME_LENGTH, isLobbyCode, normalizeLobbyCode } from '../net/protocol';
+import { Button } from './ui/Button';
+import { Card } from './ui/Card';
+import { Input } from './ui/Input';
+import { Label } from './ui/Label';
+
+interface OnlineLobbyProps {
+  // Null until a room has been created or joined.
+  status: OnlineStatus | null;
+  // What the host's room will be played with, e.g. "Classic, first to 5".
+  settingsSummary: string;
+  onCreate: (serverUrl: string, name: string) => void;
+  onJoin: (serverUrl: string, code: string, name: string) => void;
+  // Leaves any room and goes back to the Start card.
+  onExit: () => void;
+}
+
+// Creating a room, or joining one with its lobby code, then waiting for the opponent.
+export const OnlineLobby: React.FC<OnlineLobbyProps> = ({ status, settingsSummary, onCreate, onJoin, onExit }) => {
+  const [serverUrl, setServerUrl] = useState(defaultServerUrl);
+  const [name, setName] = useState('');
+  const [code, setCode] = useState('');
+  const normalizedCode = normalizeLobbyCode(code);
+  const busy = status?.connection === 'connecting' || status?.connection === 'reconnecting';
+
+  if (status?.code) {
+    const opponent = status.seat === 'player' ? status.players.ai : status.players.player;
+    return (
+      <Card className="w-full max-w-sm">
+        <h1 className="text-4xl font-bold text-cyan-400 tracking-wider">Online Match</h1>
+        <p className="text-slate-400 mt-4">Lobby code</p>
+        <p className="text-6xl font-mono font-bold text-white tracking-[0.3em] mt-2">{status.code}</p>
+        <p role="status" className="text-sm text-slate-400 mt-4">
+          {opponent ? `${opponent.name} joined. Starting…` : 'Waiting for an opponent. Share the code so they can join.'}
+        </p>
+        {status.connection === 'reconnecting' && <p className="text-sm text-yellow-400 mt-2">Reconnecting…</p>}
+        {status.error && <p className="text-sm text-red-400 mt-2">{status.error}</p>}
+        <Button onClick={onExit} variant="secondary" className="mt-8">Cancel</Button>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-sm">
+      <h1 className="text-4xl font-bold text-cyan-400 tracking-wider">Online Match</h1>
+      <p className="text-slate-400 mt-2">Play against a friend through a match server.</p>
+
+      <div className="w-full mt-6 space-y-4 text-left">
+        <div className="space-y-2">
+          <Label htmlFor="online-server">Match server</Label>
+          <Input id="online-server" value={serverUrl} onChange={(event) => setServerUrl(event.target.value)} />
+          <p className="text-xs text-slate-400">Start one on this machine with <code>npm run server</code>.</p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="online-name">Your name</Label>
+          <Input
+            id="online-name"
+            maxLength={MAX_NAME_LENGTH}
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="w-full mt-6 text-left">
+        <h2 className="text-lg font-semibold text-white">Host</h2>
+        <p className="text-xs text-slate-400 mt-1">Uses your Start card settings: {settingsSummary}. You play the bottom paddle.</p>
+        <Button onClick={() => onCreate(serverUrl.trim(), name)} disabled={busy} className="mt-3 disabled:opacity-50">
+          Create Room
+        </Button>
+      </div>
+
+      <div className="w-full mt-6 text-left">
+        <h2 className="text-lg font-semibold text-white">Join</h2>
+        <div className="flex gap-2 mt-2">
+          <Input
+            id="online-code"
+            aria-label="Lobby code"
+            placeholder="Code"
+            maxLength={8}
+            value={code}
+            onChange={(event) => setCode(event.target.value)}
+            className="font-mono uppercase"
+          />
+          <Button
+            onClick={() => onJoin(serverUrl.trim(), normalizedCode, name)}
+            disabled={busy || !isLobbyCode(normalizedCode)}
+            variant="secondary"
+            className="disabled:opacity-50"
+          >
+            Join
+          </Button>
+        </div>
+        <p className="text-xs text-slate-400 mt-1">You play the top paddle with the host's settings.</p>
+      </div>
+
+      {busy && <p className="text-sm text-slate-400 mt-4">Connecting…</p>}
+      {status?.error && <p className="text-sm text-red-400 mt-4">{status.error}</p>}
+      <Button onClick={onExit} variant="secondary" className="mt-8">Main Menu</Button>
+    </Card>
+  );
+};
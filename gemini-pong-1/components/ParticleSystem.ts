@@ -0,0 +1,189 @@
+import { ColorSource, Container, Graphics, Particle, ParticleContainer, Renderer, Texture } from 'pixi.js';
+import { Theme } from '../display/themes';
+import { drawBall } from './drawSkin';
+
+// --- Particles ---
+// Ball trails and block explosions. Every particle is drawn from one of two shared textures (a dot
+// in the ball's shape and a shard) inside a ParticleContainer, and expired particles go back to a pool, so a busy
+// rally allocates nothing frame to frame. The quality setting caps how many can be alive at once.
+
+export type ParticleQuality = 'off' | 'low' | 'high';
+
+type QualityInfo = {
+  name: string;
+  description: string;
+  // Hard cap on live particles; new ones are skipped while it is reached.
+  maxParticles: number;
+  // Share of each explosion's pieces that are actually spawned.
+  explosionScale: number;
+  // A trail dot is dropped every this many frames.
+  trailInterval: number;
+};
+
+export const PARTICLE_QUALITIES: Record<ParticleQuality, QualityInfo> = {
+  off: {
+    name: 'Off',
+    description: 'No trails or explosions.',
+    maxParticles: 0,
+    explosionScale: 0,
+    trailInterval: 1,
+  },
+  low: {
+    name: 'Low',
+    description: 'Short trails and small explosions, for slower machines.',
+    maxParticles: 200,
+    explosionScale: 0.35,
+    trailInterval: 2,
+  },
+  high: {
+    name: 'High',
+    description: 'Full trails and explosions.',
+    maxParticles: 800,
+    explosionScale: 1,
+    trailInterval: 1,
+  },
+};
+
+export const DEFAULT_PARTICLE_QUALITY: ParticleQuality = 'high';
+
+const TRAIL_MAX_LIFE = 20;
+const EXPLOSION_MAX_LIFE = 70;
+const GRAVITY = 0.05; // A little gravity for explosion pieces
+const SHARD_SPIN = 0.05;
+// Explosion pieces are drawn from one square texture, scaled to a random size.
+const SHARD_TEXTURE_SIZE = 8;
+
+type LiveParticle = {
+  particle: Particle;
+  life: number;
+  startLife: number;
+  startAlpha: number;
+  startScale: number;
+  velocityX: number;
+  velocityY: number;
+};
+
+// One texture, its container, and the particles alive in it.
+class ParticleLayer {
+  readonly container: ParticleContainer;
+  readonly live: LiveParticle[] = [];
+  private readonly pool: Particle[] = [];
+
+  constructor(readonly texture: Texture, parent: Container) {
+    this.container = new ParticleContainer({
+      texture,
+      dynamicProperties: { position: true, rotation: true, vertex: true, color: true },
+    });
+    parent.addChild(this.container);
+  }
+
+  spawn(x: number, y: number, tint: ColorSource, life: number, alpha: number, scale: number): LiveParticle {
+    const particle = this.pool.pop() ?? new Particle({ texture: this.texture, anchorX: 0.5, anchorY: 0.5 });
+    particle.x = x;
+    particle.y = y;
+    particle.tint = tint;
+    particle.alpha = alpha;
+    particle.scaleX = particle.scaleY = scale;
+    particle.rotation = 0;
+    const live = { particle, life, startLife: life, startAlpha: alpha, startScale: scale, velocityX: 0, velocityY: 0 };
+    this.live.push(live);
+    return live;
+  }
+
+  // Ages every particle by `delta` frames. Particles fade and shrink over their life; expired ones
+  // go back to the pool.
+  update(delta: number, gravity: number, spin: number) {
+    for (let i = this.live.length - 1; i >= 0; i--) {
+      const live = this.live[i];
+      live.life -= delta;
+      if (live.life <= 0) {
+        this.pool.push(live.particle);
+        // Order doesn't matter, so swap with the last one instead of splicing.
+        this.live[i] = this.live[this.live.length - 1];
+        this.live.pop();
+        continue;
+      }
+      const { particle } = live;
+      live.velocityY += gravity * delta;
+      particle.x += live.velocityX * delta;
+      particle.y += live.velocityY * delta;
+      particle.rotation += spin * delta;
+      const lifeRatio = live.life / live.startLife;
+      particle.alpha = live.startAlpha * lifeRatio;
+      particle.scaleX = particle.scaleY = live.startScale * lifeRatio;
+    }
+    // The container draws exactly the live particles; refill its list in place.
+    const children = this.container.particleChildren;
+    children.length = 0;
+    this.live.forEach(live => children.push(live.particle));
+    this.container.update();
+  }
+
+  clear() {
+    this.live.forEach(live => this.pool.push(live.particle));
+    this.live.length = 0;
+    this.container.particleChildren.length = 0;
+    this.container.update();
+  }
+}
+
+// The generated textures belong to their containers and are freed with the stage.
+export class ParticleSystem {
+  private readonly trails: ParticleLayer;
+  private readonly shards: ParticleLayer;
+  private info = PARTICLE_QUALITIES[DEFAULT_PARTICLE_QUALITY];
+  private frame = 0;
+
+  constructor(renderer: Renderer, parent: Container, private readonly theme: Theme) {
+    const dot = drawBall(new Graphics(), theme.ball.shape, 0xFFFFFF);
+    const shard = new Graphics().rect(0, 0, SHARD_TEXTURE_SIZE, SHARD_TEXTURE_SIZE).fill(0xFFFFFF);
+    this.trails = new ParticleLayer(renderer.generateTexture(dot), parent);
+    this.shards = new ParticleLayer(renderer.generateTexture(shard), parent);
+    dot.destroy();
+    shard.destroy();
+  }
+
+  set quality(quality: ParticleQuality) {
+    this.info = PARTICLE_QUALITIES[quality];
+    if (this.count > this.info.maxParticles) {
+      this.trails.clear();
+      this.shards.clear();
+    }
+  }
+
+  get count() {
+    return this.trails.live.length + this.shards.live.length;
+  }
+
+  // Drops a trail dot behind a ball, unless the theme has no trail. Call once per ball per frame.
+  trail(x: number, y: number) {
+    const { trail } = this.theme;
+    if (!trail || this.frame % this.info.trailInterval !== 0 || this.count >= this.info.maxParticles) return;
+    this.trails.spawn(x, y, trail.color, TRAIL_MAX_LIFE, trail.alpha, 1);
+  }
+
+  // A burst of shards, mostly in `color`, with a few in the theme's accents for a brighter pop.
+  explode(x: number, y: number, color: ColorSource, pieces = 40) {
+    const count = Math.min(Math.round(pieces * this.info.explosionScale), this.info.maxParticles - this.count);
+    for (let i = 0; i < count; i++) {
+      const rand = Math.random();
+      const accents = this.theme.explosionAccents;
+      const tint = rand < 0.7 ? color : accents[rand < 0.9 ? 0 : accents.length - 1];
+      const size = Math.random() * 6 + 2;
+      const life = Math.random() * EXPLOSION_MAX_LIFE + EXPLOSION_MAX_LIFE * 0.5;
+      const shard = this.shards.spawn(x, y, tint, life, 1, size / SHARD_TEXTURE_SIZE);
+      shard.particle.rotation = Math.random() * Math.PI * 2;
+      const angle = Math.random() * Math.PI * 2;
+      const speed = Math.random() * 4 + 2;
+      shard.velocityX = Math.cos(angle) * speed;
+      shard.velocityY = Math.sin(angle) * speed;
+    }
+  }
+
+  // Ages every particle by `delta` frames (the Pixi ticker's deltaTime).
+  update(delta: number) {
+    this.frame++;
+    this.trails.update(delta, 0, 0);
+    this.shards.update(delta, GRAVITY, SHARD_SPIN);
+  }
+}
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { GameSettings, PresetId, SETTINGS_PRESETS, applyPreset, settingsToParams } from '../game/settings';
+import { CustomPreset, deleteCustomPreset, loadCustomPresets, saveCustomPreset } from '../utils/settingsStorage';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Label } from './ui/Label';
+import { Select } from './ui/Select';
+
+interface SettingsPresetsProps {
+  settings: GameSettings;
+  onApply: (settings: GameSettings) => void;
+}
+
+// Select values: built-in presets by id, the player's own by name.
+const BUILT_IN_PREFIX = 'preset:';
+const CUSTOM_PREFIX = 'custom:';
+
+// Built-in and saved presets, saving the current settings under a name, and a link that opens the
+// game with the current settings.
+export const SettingsPresets: React.FC<SettingsPresetsProps> = ({ settings, onApply }) => {
+  const [customPresets, setCustomPresets] = useState<CustomPreset[]>(loadCustomPresets);
+  const [choice, setChoice] = useState('');
+  const [presetName, setPresetName] = useState('');
+  const [message, setMessage] = useState('');
+
+  const options = [
+    { value: '', label: 'Choose a preset…' },
+    ...(Object.keys(SETTINGS_PRESETS) as PresetId[]).map(id => ({
+      value: BUILT_IN_PREFIX + id,
+      label: SETTINGS_PRESETS[id].name,
+    })),
+    ...customPresets.map(preset => ({ value: CUSTOM_PREFIX + preset.name, label: `${preset.name} (saved)` })),
+  ];
+
+  const customChoice = choice.startsWith(CUSTOM_PREFIX) ? choice.slice(CUSTOM_PREFIX.length) : null;
+  const builtInChoice = choice.startsWith(BUILT_IN_PREFIX) ? SETTINGS_PRESETS[choice.slice(BUILT_IN_PREFIX.length) as PresetId] : null;
+
+  const handleChoose = (value: string) => {
+    setChoice(value);
+    setMessage('');
+    if (value.startsWith(BUILT_IN_PREFIX)) {
+      onApply(applyPreset(settings, SETTINGS_PRESETS[value.slice(BUILT_IN_PREFIX.length) as PresetId].settings));
+    } else if (value.startsWith(CUSTOM_PREFIX)) {
+      const preset = customPresets.find(saved => saved.name === value.slice(CUSTOM_PREFIX.length));
+      if (preset) onApply(applyPreset(settings, preset.settings));
+    }
+  };
+
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    setCustomPresets(saveCustomPreset({ name, settings: structuredClone(settings) }));
+    setChoice(CUSTOM_PREFIX + name);
+    setPresetName('');
+    setMessage(`Saved "${name}" in this browser.`);
+  };
+
+  const handleDelete = () => {
+    if (customChoice === null) return;
+    setCustomPresets(deleteCustomPreset(customChoice));
+    setChoice('');
+    setMessage(`Deleted "${customChoice}" from this browser.`);
+  };
+
+  const handleCopyLink = async () => {
+    const url = new URL(window.location.href);
+    url.search = settingsToParams(settings).toString();
+    url.hash = '';
+    try {
+      await navigator.clipboard.writeText(url.toString());
+      setMessage('Link copied. Anyone opening it starts with these settings.');
+    } catch {
+      setMessage(`Copy this link: ${url}`);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-left">
+      <div className="space-y-2">
+        <Label htmlFor="settings-preset">Preset</Label>
+        <div className="flex gap-2">
+          <Select id="settings-preset" options={options} value={choice} onValueChange={handleChoose} />
+          {customChoice !== null && (
+            <button type="button" onClick={handleDelete} className="h-10 px-3 text-sm text-red-400 hover:text-red-300">Delete</button>
+          )}
+        </div>
+        {builtInChoice && <p className="text-xs text-slate-400">{builtInChoice.description}</p>}
+      </div>
+      <div className="flex gap-2">
+        <Input
+          id="preset-name"
+          aria-label="Preset name"
+          placeholder="Name these settings…"
+          maxLength={24}
+          value={presetName}
+          onChange={(event) => setPresetName(event.target.value)}
+        />
+        <Button onClick={handleSave} disabled={!presetName.trim()} variant="secondary" className="px-4 py-2 text-sm disabled:opacity-50">
+          Save
+        </Button>
+      </div>
+      <Button onClick={handleCopyLink} variant="secondary" className="w-full px-4 py-2 text-sm">
+        Copy Link to These Settings
+      </Button>
+      {message && <p className="text-xs text-slate-400 break-all">{message}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import { Graphics } from 'pixi.js';
+import { BlockType, DeflectorSlope } from '../game/levels';
+
+type BlockAppearance = {
+  type: BlockType;
+  width: number;
+  height: number;
+  color: string;
+  slope?: DeflectorSlope;
+};
+
+/**
+ * Draws a block with its top-left corner at the graphic's origin. Each type gets its own look so
+ * players can read the arena at a glance; the game and the level editor share it.
+ */
+export const drawBlock = (graphics: Graphics, block: BlockAppearance) => {
+  const { width, height, color } = block;
+  switch (block.type) {
+    case 'indestructible': {
+      // Riveted steel plate.
+      graphics.roundRect(0, 0, width, height, 2).fill(color).stroke({ color: 0xFFFFFF, width: 2, alpha: 0.5, alignment: 1 });
+      const inset = 5;
+      [[inset, inset], [width - inset, inset], [inset, height - inset], [width - inset, height - inset]].forEach(([x, y]) => {
+        graphics.circle(x, y, 2).fill({ color: 0x1E293B, alpha: 0.8 });
+      });
+      break;
+    }
+    case 'moving': {
+      // Arrows on both ends hint at the sliding.
+      graphics.roundRect(0, 0, width, height, 5).fill(color);
+      const arrow = Math.min(6, height / 3, width / 6);
+      const midY = height / 2;
+      graphics
+        .poly([4, midY, 4 + arrow, midY - arrow, 4 + arrow, midY + arrow])
+        .poly([width - 4, midY, width - 4 - arrow, midY - arrow, width - 4 - arrow, midY + arrow])
+        .fill({ color: 0xFFFFFF, alpha: 0.7 });
+      break;
+    }
+    case 'regenerating':
+      // A cell with a membrane.
+      graphics.roundRect(0, 0, width, height, 8).fill(color);
+      graphics.roundRect(3, 3, width - 6, height - 6, 6).stroke({ color: 0xFFFFFF, width: 1.5, alpha: 0.5 });
+      break;
+    case 'deflector': {
+      // A bright mirror strip along the diagonal; the box itself stays empty.
+      const [start, end] = block.slope === 'falling'
+        ? [[0, 0], [width, height]]
+        : [[0, height], [width, 0]];
+      graphics.moveTo(start[0], start[1]).lineTo(end[0], end[1]).stroke({ color, width: 6, cap: 'round' });
+      graphics.moveTo(start[0], start[1]).lineTo(end[0], end[1]).stroke({ color: 0xFFFFFF, width: 2, cap: 'round', alpha: 0.8 });
+      break;
+    }
+    case 'bumper':
+      // Glowing rings, like a pinball bumper.
+      graphics.roundRect(-3, -3, width + 6, height + 6, 10).fill({ color, alpha: 0.25 });
+      graphics.roundRect(0, 0, width, height, 8).fill(color);
+      graphics.roundRect(4, 4, width - 8, height - 8, 5).stroke({ color: 0xFFFFFF, width: 2, alpha: 0.8 });
+      break;
+    default:
+      graphics.roundRect(0, 0, width, height, 5).fill(color);
+  }
+  return graphics;
+};
@@ -0,0 +1,37 @@
+import { Graphics } from 'pixi.js';
+import { BALL_RADIUS, PADDLE_CORNER_RADIUS } from '../constants';
+import { BallShape, PaddleSkin } from '../display/themes';
+
+/**
+ * Draws a paddle with its top-left corner at the graphic's origin, in the theme's shape and color.
+ */
+export const drawPaddle = (graphics: Graphics, skin: PaddleSkin, width: number, height: number) => {
+  const radius = skin.shape === 'rounded' ? PADDLE_CORNER_RADIUS : 0;
+  graphics.roundRect(0, 0, width, height, radius).fill(skin.color);
+  if (!skin.mark) return graphics;
+
+  // Marks are spaced evenly along the paddle and cut out in a dark tone, so they show on any color.
+  const size = Math.min(height * 0.5, 8);
+  const count = Math.max(1, Math.floor(width / (size * 3)));
+  const spacing = width / count;
+  const midY = height / 2;
+  for (let i = 0; i < count; i++) {
+    const x = spacing * (i + 0.5);
+    if (skin.mark === 'dots') {
+      graphics.circle(x, midY, size / 2);
+    } else {
+      graphics.poly([x - size / 2, midY + size / 2, x + size / 2, midY + size / 2, x, midY - size / 2]);
+    }
+  }
+  return graphics.fill({ color: 0x000000, alpha: 0.6 });
+};
+
+// The halo behind a glowing paddle, a little larger than the paddle itself.
+export const drawPaddleGlow = (graphics: Graphics, skin: PaddleSkin, width: number, height: number) =>
+  graphics.roundRect(-2, -2, width + 4, height + 4, 10).fill({ color: skin.color, alpha: 0.3 });
+
+// Draws a ball centered on the graphic's origin.
+export const drawBall = (graphics: Graphics, shape: BallShape, color: number) =>
+  shape === 'square'
+    ? graphics.rect(-BALL_RADIUS, -BALL_RADIUS, BALL_RADIUS * 2, BALL_RADIUS * 2).fill(color)
+    : graphics.circle(0, 0, BALL_RADIUS).fill(color);
@@ -0,0 +1,61 @@
+// --- Frame Timing ---
+// Collects how long frames take, for the debug readout. Frame time is the gap between ticker
+// callbacks; update time is the part of it spent in the game's own per-frame work (simulation,
+// scene sync and particles), before Pixi renders.
+
+import { ParticleQuality } from './ParticleSystem';
+
+export type FrameStats = {
+  fps: number;
+  averageFrameMs: number;
+  // Longest frame in the reporting window; stutters show here long before the average moves.
+  worstFrameMs: number;
+  averageUpdateMs: number;
+  particles: number;
+  // The particle quality the window was measured at. The readout compares against the last 'off'
+  // window, the cost of a frame with no particles at all.
+  quality: ParticleQuality;
+};
+
+const REPORT_INTERVAL_MS = 500;
+
+export class FrameTimer {
+  private frames = 0;
+  private frameTotal = 0;
+  private worstFrame = 0;
+  private updateTotal = 0;
+  private quality: ParticleQuality | null = null;
+
+  // Records one frame. Every REPORT_INTERVAL_MS it returns the window's figures and starts a new
+  // window; otherwise it returns null. Changing the quality starts a new window, so no report mixes
+  // two qualities.
+  record(frameMs: number, updateMs: number, particles: number, quality: ParticleQuality): FrameStats | null {
+    if (quality !== this.quality) {
+      this.reset();
+      this.quality = quality;
+    }
+    this.frames++;
+    this.frameTotal += frameMs;
+    this.worstFrame = Math.max(this.worstFrame, frameMs);
+    this.updateTotal += updateMs;
+    if (this.frameTotal < REPORT_INTERVAL_MS) return null;
+
+    const stats: FrameStats = {
+      fps: (this.frames * 1000) / this.frameTotal,
+      averageFrameMs: this.frameTotal / this.frames,
+      worstFrameMs: this.worstFrame,
+      averageUpdateMs: this.updateTotal / this.frames,
+      particles,
+      quality,
+    };
+    this.reset();
+    return stats;
+  }
+
+  private reset() {
+    this.frames = 0;
+    this.frameTotal = 0;
+    this.worstFrame = 0;
+    this.updateTotal = 0;
+  }
+}
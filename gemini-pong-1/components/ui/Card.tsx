@@ -1,15 +1,26 @@
 
 import React from 'react';
+import { useFocusOnMount } from '../../hooks/useFocusOnMount';
 
-interface CardProps {
+interface CardProps extends React.HTMLAttributes<HTMLElement> {
   children: React.ReactNode;
   className?: string;
+  // Takes keyboard focus when the card appears; pair it with `aria-labelledby` so screen readers
+  // announce the card's heading.
+  autoFocus?: boolean;
 }
 
-export const Card: React.FC<CardProps> = ({ children, className }) => {
+export const Card: React.FC<CardProps> = ({ children, className, autoFocus = false, ...props }) => {
+  const ref = useFocusOnMount<HTMLElement>(autoFocus);
+
   return (
-    <div className={`bg-slate-800/80 backdrop-blur-sm border border-slate-700 rounded-xl p-8 text-center flex flex-col items-center shadow-2xl ${className}`}>
+    <section
+      ref={ref}
+      tabIndex={autoFocus ? -1 : undefined}
+      className={`bg-slate-800/80 backdrop-blur-sm border border-slate-700 rounded-xl p-8 text-center flex flex-col items-center shadow-2xl focus:outline-none ${className}`}
+      {...props}
+    >
       {children}
-    </div>
+    </section>
   );
 };
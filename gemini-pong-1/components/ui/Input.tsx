@@ -0,0 +1,14 @@
+import React from 'react';
+
+interface InputProps extends React.InputHTMLAttributes<HTMLInputElement> {}
+
+export const Input: React.FC<InputProps> = ({ className, ...props }) => {
+  return (
+    <input
+      className={`w-full h-10 rounded-md border border-slate-600 bg-slate-900/60 px-3 text-sm text-white placeholder:text-slate-500
+        focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-cyan-500
+        ${className}`}
+      {...props}
+    />
+  );
+};
@@ -0,0 +1,28 @@
+import React from 'react';
+
+interface SelectProps extends Omit<React.SelectHTMLAttributes<HTMLSelectElement>, 'onChange'> {
+  options: { value: string; label: string }[];
+  onValueChange?: (value: string) => void;
+}
+
+export const Select: React.FC<SelectProps> = ({ className, options, onValueChange, ...props }) => {
+  const handleChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    if (onValueChange) {
+      onValueChange(event.target.value);
+    }
+  };
+
+  return (
+    <select
+      onChange={handleChange}
+      className={`w-full h-10 rounded-md border border-slate-600 bg-slate-900/60 px-3 text-sm text-white cursor-pointer
+        focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-cyan-500
+        ${className}`}
+      {...props}
+    >
+      {options.map(option => (
+        <option key={option.value} value={option.value}>{option.label}</option>
+      ))}
+    </select>
+  );
+};
@@ -4,18 +4,40 @@ export const GAME_HEIGHT = 600;
 export const PADDLE_WIDTH = 120;
 export const PADDLE_HEIGHT = 20;
 export const PADDLE_Y_OFFSET = 30;
+export const PADDLE_CORNER_RADIUS = 8;
 
 export const MIN_PADDLE_WIDTH = 60;
 export const MAX_PADDLE_WIDTH = 200;
 export const MIN_PADDLE_HEIGHT = 10;
 export const MAX_PADDLE_HEIGHT = 40;
 
+// Keyboard and gamepad paddle movement, in pixels per simulation step.
+export const KEYBOARD_PADDLE_SPEED = 9; // Top speed
+export const KEYBOARD_PADDLE_ACCELERATION = 1.5; // Added each step while a key is held
+export const KEYBOARD_PADDLE_DECELERATION = 3; // Removed each step after release
+export const GAMEPAD_DEADZONE = 0.15;
+
 export const BALL_RADIUS = 10;
 export const INITIAL_BALL_SPEED = 5;
 export const DEFAULT_SPEED_INCREASE = 0.25;
 export const MAX_BALL_SPEED = 15;
 
+// Ranges offered on the Start card for the serve speed and the speed added per paddle hit.
+export const MIN_INITIAL_BALL_SPEED = 2;
+export const MAX_INITIAL_BALL_SPEED = 10;
+export const MAX_SPEED_INCREASE = 1;
+
+export const DEFAULT_AI_DIFFICULTY = 0.25;
+
+// The simulation advances in fixed steps, measured in 60 Hz frames like the Pixi ticker's deltaTime.
+export const FIXED_TIMESTEP = 1;
+// Upper bound on catch-up steps per rendered frame, so a long stall cannot snowball.
+export const MAX_STEPS_PER_FRAME = 5;
+export const STEPS_PER_SECOND = 60 / FIXED_TIMESTEP;
+
 export const BLOCK_WIDTH = 80;
 export const BLOCK_HEIGHT = 30;
+// Speed a bumper block adds to the ball on every hit.
+export const BUMPER_SPEED_BOOST = 1.5;
 
 export const WINNING_SCORE = 5;
\ No newline at end of file
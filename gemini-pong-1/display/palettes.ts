@@ -0,0 +1,60 @@
+import { Side } from '../game/types';
+import { PaddleMark, Theme } from './themes';
+
+// --- Color Palettes ---
+// Side colors that stay apart for players with color-vision deficiencies, from the Okabe–Ito set.
+// A palette replaces the theme's paddle and score colors and adds a mark to each paddle, so the
+// sides differ in shape as well as in color.
+
+export type ColorPaletteId = 'theme' | 'orangeBlue' | 'vermillionBlue';
+
+type SideColors = Record<Side, { color: number; css: string; mark: PaddleMark }>;
+
+type PaletteInfo = {
+  name: string;
+  description: string;
+  // Null keeps the theme's own colors.
+  sides: SideColors | null;
+};
+
+const MARKS: Record<Side, PaddleMark> = { player: 'triangles', ai: 'dots' };
+
+export const COLOR_PALETTES: Record<ColorPaletteId, PaletteInfo> = {
+  theme: {
+    name: 'Theme colors',
+    description: "The theme's own colors.",
+    sides: null,
+  },
+  orangeBlue: {
+    name: 'Orange & sky blue',
+    description: 'Readable with red-green and blue-yellow color blindness. Paddles carry ▲ and ● marks.',
+    sides: {
+      player: { color: 0xE69F00, css: '#E69F00', mark: MARKS.player },
+      ai: { color: 0x56B4E9, css: '#56B4E9', mark: MARKS.ai },
+    },
+  },
+  vermillionBlue: {
+    name: 'Vermillion & blue',
+    description: 'Darker and further apart in brightness, for low color sensitivity. Paddles carry ▲ and ● marks.',
+    sides: {
+      player: { color: 0xD55E00, css: '#D55E00', mark: MARKS.player },
+      ai: { color: 0x0072B2, css: '#0072B2', mark: MARKS.ai },
+    },
+  },
+};
+
+export const DEFAULT_COLOR_PALETTE: ColorPaletteId = 'theme';
+
+// The theme with the palette's side colors and paddle marks in place of its own.
+export const applyColorPalette = (theme: Theme, palette: ColorPaletteId): Theme => {
+  const { sides } = COLOR_PALETTES[palette];
+  if (!sides) return theme;
+  return {
+    ...theme,
+    paddles: {
+      player: { ...theme.paddles.player, color: sides.player.color, mark: sides.player.mark },
+      ai: { ...theme.paddles.ai, color: sides.ai.color, mark: sides.ai.mark },
+    },
+    ui: { ...theme.ui, player: sides.player.css, ai: sides.ai.css },
+  };
+};
@@ -0,0 +1,32 @@
+import { DEFAULT_PARTICLE_QUALITY, ParticleQuality } from '../components/ParticleSystem';
+import { DEFAULT_THEME, ThemeId } from './themes';
+import { ColorPaletteId, DEFAULT_COLOR_PALETTE } from './palettes';
+
+// --- Display Settings ---
+// How the match is drawn, as opposed to how it is played; none of it reaches the simulation.
+
+// 'system' follows the operating system's reduced-motion preference.
+export type MotionPreference = 'system' | 'reduced' | 'full';
+
+export const MOTION_PREFERENCES: Record<MotionPreference, { name: string; description: string }> = {
+  system: { name: 'Follow system', description: "Reduced when your device's reduce-motion setting is on." },
+  reduced: { name: 'Reduced', description: 'No trails, explosions, glow pulsing or flashing text.' },
+  full: { name: 'Full', description: 'Every effect, whatever the device setting.' },
+};
+
+export type DisplaySettings = {
+  theme: ThemeId;
+  colorPalette: ColorPaletteId;
+  motion: MotionPreference;
+  particles: ParticleQuality;
+  // Frame times and the particle count in the corner of the field.
+  showFrameStats: boolean;
+};
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  theme: DEFAULT_THEME,
+  colorPalette: DEFAULT_COLOR_PALETTE,
+  motion: 'system',
+  particles: DEFAULT_PARTICLE_QUALITY,
+  showFrameStats: false,
+};
@@ -0,0 +1,100 @@
+import { Side } from '../game/types';
+
+// --- Themes ---
+// Everything about how a match looks: the arena, paddle and ball skins, the trail, and the colors
+// of the HTML overlays drawn on top of the canvas. Pixi colors are numbers; overlay colors are
+// CSS strings.
+
+export type ThemeId = 'neon' | 'classic' | 'highContrast';
+
+export type PaddleShape = 'rounded' | 'square';
+export type BallShape = 'circle' | 'square';
+// Pattern on a paddle that tells the sides apart without relying on color.
+export type PaddleMark = 'triangles' | 'dots';
+
+// The same marks as text, for the score overlay.
+export const PADDLE_MARK_SYMBOLS: Record<PaddleMark, string> = { triangles: '▲', dots: '●' };
+
+export type PaddleSkin = {
+  color: number;
+  shape: PaddleShape;
+  // A soft halo behind the paddle that pulses during play.
+  glow: boolean;
+  mark?: PaddleMark;
+};
+
+export type Theme = {
+  name: string;
+  description: string;
+  background: number;
+  centerLine: { color: number; alpha: number; dashed: boolean };
+  paddles: Record<Side, PaddleSkin>;
+  ball: { color: number; shape: BallShape };
+  // Dots left behind every ball, in the ball's shape; null for no trail at all.
+  trail: { color: number; alpha: number } | null;
+  // Replaces the level's block colors when set.
+  blockColor: string | null;
+  // Explosions are mostly the color of what exploded, with a few pieces in these.
+  explosionAccents: number[];
+  ui: {
+    // Each side's score, names and point banners.
+    player: string;
+    ai: string;
+    // Headings and highlighted figures.
+    accent: string;
+    // Color of the glow behind big overlay text; null for none.
+    glow: string | null;
+    // Border around the playing field.
+    frame: string;
+  };
+};
+
+export const THEMES: Record<ThemeId, Theme> = {
+  neon: {
+    name: 'Neon',
+    description: 'Pink and cyan on midnight blue, with glows and trails.',
+    background: 0x0A0F1A,
+    centerLine: { color: 0x4A5568, alpha: 0.5, dashed: true },
+    paddles: {
+      player: { color: 0xFF007F, shape: 'rounded', glow: false },
+      ai: { color: 0x00FFFF, shape: 'rounded', glow: true },
+    },
+    ball: { color: 0xFFFFFF, shape: 'circle' },
+    trail: { color: 0x00FFFF, alpha: 0.5 },
+    blockColor: null,
+    explosionAccents: [0x00FFFF, 0xFFFFFF],
+    ui: { player: '#EC4899', ai: '#22D3EE', accent: '#22D3EE', glow: 'rgba(0, 255, 255, 0.7)', frame: '#334155' },
+  },
+  classic: {
+    name: 'Classic',
+    description: 'White on black with square paddles and ball, like the 1972 cabinet.',
+    background: 0x000000,
+    centerLine: { color: 0xFFFFFF, alpha: 0.8, dashed: true },
+    paddles: {
+      player: { color: 0xFFFFFF, shape: 'square', glow: false },
+      ai: { color: 0xFFFFFF, shape: 'square', glow: false },
+    },
+    ball: { color: 0xFFFFFF, shape: 'square' },
+    trail: null,
+    blockColor: '#9CA3AF',
+    explosionAccents: [0xFFFFFF, 0xD1D5DB],
+    ui: { player: '#FFFFFF', ai: '#FFFFFF', accent: '#FFFFFF', glow: null, frame: '#FFFFFF' },
+  },
+  highContrast: {
+    name: 'High Contrast',
+    description: 'Yellow and cyan on pure black, with a solid center line and no glows.',
+    background: 0x000000,
+    centerLine: { color: 0xFFFFFF, alpha: 1, dashed: false },
+    paddles: {
+      player: { color: 0xFFFF00, shape: 'square', glow: false },
+      ai: { color: 0x00FFFF, shape: 'square', glow: false },
+    },
+    ball: { color: 0xFFFFFF, shape: 'circle' },
+    trail: { color: 0xFFFFFF, alpha: 0.35 },
+    blockColor: null,
+    explosionAccents: [0xFFFFFF, 0xFFFF00],
+    ui: { player: '#FFFF00', ai: '#00FFFF', accent: '#FFFF00', glow: null, frame: '#FFFFFF' },
+  },
+};
+
+export const DEFAULT_THEME: ThemeId = 'neon';
@@ -0,0 +1,447 @@
+import {
+  GAME_WIDTH,
+  GAME_HEIGHT,
+  PADDLE_Y_OFFSET,
+  PADDLE_CORNER_RADIUS,
+  BALL_RADIUS,
+  MAX_BALL_SPEED,
+  FIXED_TIMESTEP,
+  STEPS_PER_SECOND,
+} from '../constants';
+import {
+  BallState,
+  BlockState,
+  PaddleState,
+  Side,
+  SimulationConfig,
+  SimulationEvent,
+  SimulationInput,
+  SimulationState,
+  StepResult,
+  Vector,
+} from './types';
+import { GameMode } from '../types';
+import { BLOCK_TYPES, DEFAULT_REGROW_DELAY, LevelDefinition } from './levels';
+import { random } from './rng';
+import { SweepHit, sweepCircleRoundedRect, sweepCircleSideWalls } from './collision';
+import { bounceOffBlock, sweepBlock } from './physics';
+import { addBall, removeBall } from './balls';
+import { getAIController } from './ai/controllers';
+import { selectThreat } from './ai/threat';
+import { adjustDifficultyAfterPoint, createAdaptiveDifficultyState, recordRallyHit } from './ai/adaptive';
+import {
+  SLOW_BALL_FACTOR,
+  clearPowerUpsForServe,
+  consumeShield,
+  createPowerUpState,
+  hasEffect,
+  isHeld,
+  maybeDropCapsule,
+  tryCatchBall,
+  updateHeldBall,
+  updatePowerUps,
+} from './powerups';
+import { checkTimeLimit, createMatchState, finishSet, nextServer, setWinnerOnPoints } from './rules';
+
+// --- Pong Simulation ---
+// The complete game rules (ball physics, scoring, blocks and the AI opponent) as plain data
+// transformations. Nothing here touches Pixi or the DOM, so it runs unchanged under Node.
+
+// Safety cap on contacts resolved within a single step (e.g. a ball wedged between a block and a wall).
+const MAX_COLLISIONS_PER_STEP = 8;
+
+const createPaddle = (y: number, config: SimulationConfig): PaddleState => ({
+  x: (GAME_WIDTH - config.paddleWidth) / 2,
+  y,
+  width: config.paddleWidth,
+  height: config.paddleHeight,
+});
+
+const createBlocks = (level: LevelDefinition): BlockState[] =>
+  level.blocks.map((block, id) => ({
+    id,
+    type: block.type,
+    x: block.x,
+    y: block.y,
+    width: block.width,
+    height: block.height,
+    health: block.health,
+    maxHealth: block.health,
+    color: block.color,
+    slope: block.slope,
+    visible: true,
+    regrowAt: null,
+  }));
+
+const resetBlocks = (blocks: BlockState[]) => {
+  blocks.forEach(block => {
+    block.health = block.maxHealth;
+    block.visible = true;
+    block.regrowAt = null;
+  });
+};
+
+const NO_MOTION = { x: 0, y: 0 };
+
+// Slides moving blocks along their paths. Their position depends only on the tick, so replays and
+// the AI see exactly the same motion.
+const moveBlocks = (state: SimulationState, config: SimulationConfig) => {
+  state.blocks.forEach(block => {
+    const definition = config.level.blocks[block.id];
+    if (block.type !== 'moving' || !definition.path) return;
+    const { path } = definition;
+    // Eases from the start (0) to the far end (1) and back once per period.
+    const progress = (1 - Math.cos((2 * Math.PI * state.tick) / (path.period * STEPS_PER_SECOND))) / 2;
+    block.x = definition.x + path.x * progress;
+    block.y = definition.y + path.y * progress;
+
+    // A block that slides into a ball shoves it aside rather than swallowing it.
+    if (!block.visible) return;
+    state.balls.forEach(ball => {
+      const overlap = sweepBlock(ball, NO_MOTION, BALL_RADIUS, block);
+      if (overlap?.exitPosition) {
+        const exit = clampToField(overlap.exitPosition);
+        ball.x = exit.x;
+        ball.y = exit.y;
+      }
+    });
+  });
+};
+
+const regrowBlocks = (state: SimulationState, events: SimulationEvent[]) => {
+  state.blocks.forEach(block => {
+    if (block.visible || block.regrowAt === null || state.tick < block.regrowAt) return;
+    // Wait for every ball to get out of the way.
+    if (state.balls.some(ball => sweepBlock(ball, NO_MOTION, BALL_RADIUS, block))) return;
+    block.visible = true;
+    block.health = block.maxHealth;
+    block.regrowAt = null;
+    events.push({ type: 'blockRegenerated', blockId: block.id });
+  });
+};
+
+// Puts a fresh set of balls in play from the center. The first heads away from `server`; in a
+// multi-ball match the rest alternate between the two ends.
+const serve = (state: SimulationState, config: SimulationConfig, server: Side, events: SimulationEvent[]) => {
+  const direction = server === 'ai' ? 1 : -1; // The AI paddle is at the top
+  if (config.level.regenerate) resetBlocks(state.blocks); // Reset blocks on score
+  clearPowerUpsForServe(state.powerUps);
+  const speed = config.initialBallSpeed;
+  state.balls = [];
+  for (let i = 0; i < config.ballCount; i++) {
+    const angle = random(state) * (Math.PI / 2) - Math.PI / 4; // -45 to +45 deg
+    const heading = i % 2 === 0 ? direction : -direction;
+    const velocity = { x: Math.sin(angle) * speed, y: Math.cos(angle) * speed * heading };
+    addBall(state, GAME_WIDTH / 2, GAME_HEIGHT / 2, velocity, speed);
+  }
+  events.push({ type: 'serve', server, direction });
+};
+
+const clampPaddleX = (x: number, paddle: PaddleState) => Math.max(0, Math.min(GAME_WIDTH - paddle.width, x));
+
+export const createSimulationState = (config: SimulationConfig): SimulationState => {
+  const state: SimulationState = {
+    tick: 0,
+    rngState: config.seed >>> 0,
+    balls: [],
+    nextBallId: 0,
+    paddles: {
+      player: createPaddle(GAME_HEIGHT - config.paddleHeight - PADDLE_Y_OFFSET, config),
+      ai: createPaddle(PADDLE_Y_OFFSET, config),
+    },
+    blocks: createBlocks(config.level),
+    score: { player: 0, ai: 0 },
+    match: createMatchState('ai'),
+    aiDifficulty: config.ai.difficulty,
+    adaptive: config.mode === GameMode.VsAI && config.ai.adaptive ? createAdaptiveDifficultyState() : null,
+    powerUps: config.powerUps ? createPowerUpState() : null,
+  };
+  state.match.server = random(state) > 0.5 ? 'ai' : 'player';
+  serve(state, config, state.match.server, []);
+  return state;
+};
+
+const updateAi = (state: SimulationState, config: SimulationConfig) => {
+  const aiPaddle = state.paddles.ai;
+  const controller = getAIController(config.ai.personality);
+  const { targetX, reactionSpeed } = controller.decide(
+    { state, paddle: aiPaddle, ball: selectThreat(state.balls, aiPaddle), difficulty: state.aiDifficulty },
+    state,
+  );
+
+  const targetXForPaddle = targetX - aiPaddle.width / 2;
+  aiPaddle.x = clampPaddleX(aiPaddle.x + (targetXForPaddle - aiPaddle.x) * reactionSpeed * FIXED_TIMESTEP, aiPaddle);
+};
+
+type CollisionTarget =
+  | { kind: 'wall' }
+  | { kind: 'paddle'; side: Side }
+  | { kind: 'block'; block: BlockState };
+
+type Collision = SweepHit & { target: CollisionTarget };
+
+// Finds the first thing the ball touches while travelling along `motion` during this step. Balls
+// pass through each other.
+const findFirstCollision = (state: SimulationState, ball: BallState, motion: Vector): Collision | null => {
+  let first: Collision | null = null;
+  const consider = (hit: SweepHit | null, target: CollisionTarget) => {
+    // Surfaces the ball is already moving away from cannot be hit.
+    if (!hit || motion.x * hit.normal.x + motion.y * hit.normal.y >= 0) return;
+    if (!first || hit.time < first.time) first = { ...hit, target };
+  };
+
+  consider(sweepCircleSideWalls(ball, motion, BALL_RADIUS, GAME_WIDTH), { kind: 'wall' });
+
+  (['player', 'ai'] as const).forEach(side => {
+    const hit = sweepCircleRoundedRect(ball, motion, BALL_RADIUS, state.paddles[side], PADDLE_CORNER_RADIUS);
+    consider(hit, { kind: 'paddle', side });
+  });
+
+  state.blocks.forEach(block => {
+    if (block.visible) consider(sweepBlock(ball, motion, BALL_RADIUS, block), { kind: 'block', block });
+  });
+
+  return first;
+};
+
+const bounceOffPaddle = (ball: BallState, paddle: PaddleState, normal: Vector, config: SimulationConfig) => {
+  if (normal.x === 0) {
+    // Face hit: send the ball back up (or down) the field.
+    ball.velocity.y = Math.abs(ball.velocity.y) * normal.y;
+
+    // Influence x velocity based on where it hit the paddle
+    const hitPoint = ball.x - (paddle.x + paddle.width / 2);
+    ball.velocity.x += (hitPoint / (paddle.width / 2)) * 2;
+  } else if (normal.y === 0) {
+    // Side hit on the paddle's end: deflect horizontally.
+    ball.velocity.x = Math.abs(ball.velocity.x) * normal.x;
+  } else {
+    // Corner hit: reflect along the contact normal.
+    const dot = ball.velocity.x * normal.x + ball.velocity.y * normal.y;
+    ball.velocity.x -= 2 * dot * normal.x;
+    ball.velocity.y -= 2 * dot * normal.y;
+  }
+
+  // Increase speed
+  ball.speed = Math.min(ball.speed + config.speedIncrease, MAX_BALL_SPEED);
+};
+
+const normalizeSpeed = (ball: BallState) => {
+  const magnitude = Math.sqrt(ball.velocity.x ** 2 + ball.velocity.y ** 2);
+  if (magnitude > 0) {
+    ball.velocity.x = (ball.velocity.x / magnitude) * ball.speed;
+    ball.velocity.y = (ball.velocity.y / magnitude) * ball.speed;
+  }
+};
+
+// Keeps a push-out position between the side walls. Pushed past a wall, a ball would bounce
+// between it and whatever pushed it, every step, without ever leaving.
+const clampToField = (position: Vector): Vector => ({
+  x: Math.max(BALL_RADIUS, Math.min(GAME_WIDTH - BALL_RADIUS, position.x)),
+  y: position.y,
+});
+
+// A paddle that moved onto a ball next to a side wall can't push it out sideways: there is no room.
+// The ball leaves through the paddle's nearer long face instead, as if hit by it.
+const pushOutOfPinningPaddle = (ball: BallState, paddle: PaddleState): Vector => {
+  const normalY = ball.y < paddle.y + paddle.height / 2 ? -1 : 1;
+  ball.y = normalY < 0 ? paddle.y - BALL_RADIUS : paddle.y + paddle.height + BALL_RADIUS;
+  return { x: 0, y: normalY };
+};
+
+// Moves a ball through one fixed step, resolving every contact along the way in time order.
+const moveBall = (state: SimulationState, ball: BallState, config: SimulationConfig, events: SimulationEvent[]) => {
+  let remaining = 1; // Fraction of this step's travel still to cover
+  const timeScale = hasEffect(state.powerUps, 'slowBall') ? SLOW_BALL_FACTOR : 1;
+
+  for (let i = 0; i < MAX_COLLISIONS_PER_STEP && remaining > 0; i++) {
+    const motion = {
+      x: ball.velocity.x * FIXED_TIMESTEP * timeScale * remaining,
+      y: ball.velocity.y * FIXED_TIMESTEP * timeScale * remaining,
+    };
+    const collision = findFirstCollision(state, ball, motion);
+    if (!collision) {
+      ball.x += motion.x;
+      ball.y += motion.y;
+      return;
+    }
+
+    let { normal } = collision;
+    const { target } = collision;
+    if (collision.exitPosition) {
+      // Started the step overlapping: push ball out to prevent sticking
+      const exit = clampToField(collision.exitPosition);
+      ball.x = exit.x;
+      ball.y = exit.y;
+      if (exit.x !== collision.exitPosition.x && target.kind === 'paddle') {
+        normal = pushOutOfPinningPaddle(ball, state.paddles[target.side]);
+      }
+    } else {
+      ball.x += motion.x * collision.time;
+      ball.y += motion.y * collision.time;
+    }
+    remaining *= 1 - collision.time;
+
+    switch (target.kind) {
+      case 'wall':
+        ball.velocity.x *= -1;
+        normalizeSpeed(ball); // Ensure consistent speed even after wall bounce
+        events.push({ type: 'wallBounce', ballId: ball.id });
+        break;
+      case 'paddle':
+        bounceOffPaddle(ball, state.paddles[target.side], normal, config);
+        normalizeSpeed(ball);
+        if (state.adaptive) recordRallyHit(state.adaptive);
+        if (state.powerUps) state.powerUps.lastHitter = target.side;
+        events.push({ type: 'paddleHit', side: target.side, ballId: ball.id });
+        // A sticky paddle keeps the ball; it stays put until relaunched.
+        if (normal.x === 0 && tryCatchBall(state, ball, target.side, events)) return;
+        break;
+      case 'block': {
+        const { block } = target;
+        // No need to normalize, speed is preserved by the angle calculation.
+        bounceOffBlock(ball, block, normal);
+        events.push({ type: 'blockHit', blockId: block.id, ballId: ball.id });
+
+        // Handle breakable blocks
+        if (!BLOCK_TYPES[block.type].breakable) break;
+        block.health -= 1;
+        if (block.health <= 0) {
+          block.visible = false;
+          if (block.type === 'regenerating') {
+            const delay = config.level.blocks[block.id].regrowDelay ?? DEFAULT_REGROW_DELAY;
+            block.regrowAt = state.tick + Math.round(delay * STEPS_PER_SECOND);
+          }
+          const centerX = block.x + block.width / 2;
+          const centerY = block.y + block.height / 2;
+          events.push({ type: 'blockDestroyed', blockId: block.id, ballId: ball.id, x: centerX, y: centerY });
+          maybeDropCapsule(state, centerX, centerY, events);
+        }
+        break;
+      }
+    }
+  }
+};
+
+const scorePoint = (state: SimulationState, config: SimulationConfig, ball: BallState, scorer: Side, events: SimulationEvent[]) => {
+  state.score[scorer] += 1;
+  events.push({ type: 'point', scorer, ballId: ball.id });
+
+  // Adaptive difficulty only ever changes between points.
+  if (state.adaptive) {
+    const difficulty = adjustDifficultyAfterPoint(state.adaptive, state.aiDifficulty, scorer, state.score);
+    if (difficulty !== state.aiDifficulty) {
+      state.aiDifficulty = difficulty;
+      events.push({ type: 'difficultyChange', difficulty });
+    }
+  }
+};
+
+// Closes the set and, unless that decided the match, serves the first point of the next one.
+const endSet = (state: SimulationState, config: SimulationConfig, winner: Side, events: SimulationEvent[]) => {
+  finishSet(state, config.rules, winner, events);
+  if (state.match.winner) {
+    state.balls = [];
+    return;
+  }
+  serve(state, config, nextServer(state.match, config.rules, winner), events);
+};
+
+// Every ball that gets past a paddle scores and leaves play, unless a shield turns it back at the
+// goal line. The next serve waits until the last ball is gone, unless the point ended the set.
+const scoreBall = (state: SimulationState, ball: BallState, config: SimulationConfig, events: SimulationEvent[]) => {
+  let scorer: Side;
+  if (ball.y - BALL_RADIUS < 0) {
+    if (consumeShield(state, ball, 'ai', events)) {
+      ball.y = BALL_RADIUS;
+      ball.velocity.y = Math.abs(ball.velocity.y);
+      return;
+    }
+    scorer = 'player';
+  } else if (ball.y + BALL_RADIUS > GAME_HEIGHT) {
+    if (consumeShield(state, ball, 'player', events)) {
+      ball.y = GAME_HEIGHT - BALL_RADIUS;
+      ball.velocity.y = -Math.abs(ball.velocity.y);
+      return;
+    }
+    scorer = 'ai';
+  } else {
+    return;
+  }
+
+  scorePoint(state, config, ball, scorer, events);
+  removeBall(state, ball);
+  const setWinner = setWinnerOnPoints(state.match, state.score, config.rules);
+  if (setWinner) {
+    endSet(state, config, setWinner, events);
+  } else if (state.balls.length === 0) {
+    serve(state, config, nextServer(state.match, config.rules, scorer), events);
+  }
+};
+
+/**
+ * Advances the simulation by one fixed step of FIXED_TIMESTEP. The incoming state is left
+ * untouched; a new state is returned with the events that happened during the step.
+ */
+export const stepSimulation = (
+  previous: SimulationState,
+  input: SimulationInput,
+  config: SimulationConfig,
+): StepResult => {
+  const state: SimulationState = structuredClone(previous);
+  const events: SimulationEvent[] = [];
+  // A finished match stays frozen on its final state.
+  if (state.match.winner) return { state, events };
+  const { paddles } = state;
+  state.tick += 1;
+
+  // Human-controlled paddles follow their input, clamped to stay within game bounds
+  if (input.playerX !== undefined) {
+    paddles.player.x = clampPaddleX(input.playerX - paddles.player.width / 2, paddles.player);
+  }
+  if (config.mode === GameMode.LocalVersus && input.aiX !== undefined) {
+    paddles.ai.x = clampPaddleX(input.aiX - paddles.ai.width / 2, paddles.ai);
+  }
+
+  updatePowerUps(state, config, events);
+  moveBlocks(state, config);
+  regrowBlocks(state, events);
+  updateHeldBall(state, events);
+  // Copy the list: scoring removes balls from it, and the end of a set replaces them all.
+  [...state.balls].forEach(ball => {
+    if (!state.balls.includes(ball)) return;
+    if (!isHeld(state.powerUps, ball)) moveBall(state, ball, config, events);
+    scoreBall(state, ball, config, events);
+  });
+
+  const timeWinner = checkTimeLimit(state, config.rules, events);
+  if (timeWinner) endSet(state, config, timeWinner, events);
+
+  if (config.mode === GameMode.VsAI && !state.match.winner) {
+    updateAi(state, config);
+  }
+
+  return { state, events };
+};
+
+/**
+ * Convenience wrapper that owns the current state, for callers that simply want to drive the
+ * simulation frame by frame.
+ */
+export class PongSimulation {
+  private state: SimulationState;
+
+  constructor(private readonly config: SimulationConfig) {
+    this.state = createSimulationState(config);
+  }
+
+  getState(): SimulationState {
+    return this.state;
+  }
+
+  step(input: SimulationInput): StepResult {
+    const result = stepSimulation(this.state, input, this.config);
+    this.state = result.state;
+    return result;
+  }
+}
@@ -0,0 +1,63 @@
+import { Score } from '../../types';
+import { Side } from '../types';
+
+// --- Adaptive Difficulty ---
+// Nudges the AI's difficulty between points to keep matches close. It looks at three signals:
+// the point margin, how often the player has missed recently, and how long rallies last.
+
+// The adaptive AI never drops below or climbs above these difficulties.
+export const ADAPTIVE_MIN_DIFFICULTY = 0.05;
+export const ADAPTIVE_MAX_DIFFICULTY = 0.95;
+
+// Largest change applied after a single point.
+const MAX_ADJUSTMENT = 0.12;
+// How many recent points and rallies are taken into account.
+const HISTORY_LENGTH = 5;
+// Rallies (paddle hits per point) at which the match feels evenly balanced.
+const BALANCED_RALLY_LENGTH = 6;
+
+export type AdaptiveDifficultyState = {
+  rallyHits: number;
+  recentRallies: number[];
+  recentScorers: Side[];
+};
+
+export const createAdaptiveDifficultyState = (): AdaptiveDifficultyState => ({
+  rallyHits: 0,
+  recentRallies: [],
+  recentScorers: [],
+});
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const pushRecent = <T>(list: T[], value: T) => {
+  list.push(value);
+  if (list.length > HISTORY_LENGTH) list.shift();
+};
+
+export const recordRallyHit = (tracker: AdaptiveDifficultyState) => {
+  tracker.rallyHits += 1;
+};
+
+/**
+ * Closes the current rally and returns the difficulty to use for the next point. Positive
+ * pressure means the player is comfortable and the AI should get sharper.
+ */
+export const adjustDifficultyAfterPoint = (
+  tracker: AdaptiveDifficultyState,
+  difficulty: number,
+  scorer: Side,
+  score: Score,
+): number => {
+  pushRecent(tracker.recentRallies, tracker.rallyHits);
+  pushRecent(tracker.recentScorers, scorer);
+  tracker.rallyHits = 0;
+
+  const margin = clamp((score.player - score.ai) / 3, -1, 1);
+  const playerMissRate = tracker.recentScorers.filter(side => side === 'ai').length / tracker.recentScorers.length;
+  const averageRally = tracker.recentRallies.reduce((sum, hits) => sum + hits, 0) / tracker.recentRallies.length;
+  const rallyBalance = clamp((averageRally - BALANCED_RALLY_LENGTH) / BALANCED_RALLY_LENGTH, -1, 1);
+
+  const pressure = margin * 0.5 + (0.5 - playerMissRate) * 2 * 0.3 + rallyBalance * 0.2;
+  return clamp(difficulty + pressure * MAX_ADJUSTMENT, ADAPTIVE_MIN_DIFFICULTY, ADAPTIVE_MAX_DIFFICULTY);
+};
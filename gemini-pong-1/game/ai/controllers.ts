@@ -0,0 +1,119 @@
+import { GAME_WIDTH, GAME_HEIGHT, BALL_RADIUS } from '../../constants';
+import { random, RandomSource } from '../rng';
+import { AIController, AIObservation, AIPersonality } from './types';
+import { predictWithBounces, predictWithSingleBounce } from './prediction';
+
+// --- AI Difficulty ---
+// Map difficulty (0 to 1) to an AI reaction speed (e.g., 0.05 to 0.20)
+const AI_MIN_REACTION = 0.05; // Slower, easier AI
+const AI_MAX_REACTION = 0.20; // Faster, harder AI
+
+const reactionSpeedFor = (difficulty: number) => AI_MIN_REACTION + (AI_MAX_REACTION - AI_MIN_REACTION) * difficulty;
+
+// Random aiming error, up to a third of the paddle width at the lowest difficulty.
+const aimingError = ({ paddle, difficulty }: AIObservation, rng: RandomSource, scale = 1) => {
+  const maxError = paddle.width / 3 * (1 - difficulty) * scale;
+  return (random(rng) - 0.5) * maxError;
+};
+
+const isApproaching = ({ ball }: AIObservation) => ball.velocity.y < 0;
+
+// The line the ball's center crosses when it meets the paddle's face.
+const contactLine = ({ paddle }: AIObservation) => paddle.y + paddle.height + BALL_RADIUS;
+
+const CENTER_X = GAME_WIDTH / 2;
+
+const classic: AIController = {
+  id: 'classic',
+  name: 'Classic',
+  description: 'Predicts one wall bounce and eases toward it.',
+  decide(observation, rng) {
+    const { ball, paddle, difficulty } = observation;
+    let targetX = CENTER_X;
+    if (isApproaching(observation)) {
+      targetX = predictWithSingleBounce(ball, paddle.y + paddle.height) + aimingError(observation, rng);
+    }
+    return { targetX, reactionSpeed: reactionSpeedFor(difficulty) };
+  },
+};
+
+const follower: AIController = {
+  id: 'follower',
+  name: 'Follower',
+  description: 'Chases the ball wherever it is. Easy to wrong-foot with angles.',
+  decide(observation, rng) {
+    const { ball, difficulty } = observation;
+    return {
+      targetX: ball.x + aimingError(observation, rng),
+      reactionSpeed: reactionSpeedFor(difficulty),
+    };
+  },
+};
+
+const predictor: AIController = {
+  id: 'predictor',
+  name: 'Predictor',
+  description: 'Traces the ball through every wall and block bounce.',
+  decide(observation, rng) {
+    const { state, ball, difficulty } = observation;
+    let targetX = CENTER_X;
+    if (isApproaching(observation)) {
+      const predictedX = predictWithBounces(state, ball, contactLine(observation));
+      if (predictedX !== null) {
+        targetX = predictedX + aimingError(observation, rng, 0.5);
+      }
+    }
+    return { targetX, reactionSpeed: reactionSpeedFor(difficulty) };
+  },
+};
+
+const defensive: AIController = {
+  id: 'defensive',
+  name: 'Defensive',
+  description: 'Holds the center and only commits as the ball gets close.',
+  decide(observation, rng) {
+    const { ball, difficulty } = observation;
+    let targetX = CENTER_X;
+    if (isApproaching(observation)) {
+      const line = contactLine(observation);
+      const predictedX = predictWithSingleBounce(ball, line) + aimingError(observation, rng);
+      // Commit 40% of the way at the far end of the field, fully once the ball is close.
+      const distance = Math.max(0, Math.min(1, (ball.y - line) / (GAME_HEIGHT - line)));
+      const commitment = 1 - distance * 0.6;
+      targetX = CENTER_X + (predictedX - CENTER_X) * commitment;
+    }
+    return { targetX, reactionSpeed: reactionSpeedFor(difficulty) };
+  },
+};
+
+const aggressive: AIController = {
+  id: 'aggressive',
+  name: 'Aggressive',
+  description: 'Meets the ball off-center to angle it away from you.',
+  decide(observation, rng) {
+    const { state, ball, paddle, difficulty } = observation;
+    let targetX = CENTER_X;
+    if (isApproaching(observation)) {
+      const line = contactLine(observation);
+      const predictedX = predictWithBounces(state, ball, line) ?? predictWithSingleBounce(ball, line);
+      // Hitting right of center sends the ball right, so offset the paddle away from the side we aim at.
+      const opponent = state.paddles.player;
+      const aimRight = opponent.x + opponent.width / 2 < CENTER_X;
+      const offset = paddle.width * (0.2 + 0.2 * difficulty);
+      targetX = predictedX + (aimRight ? -offset : offset) + aimingError(observation, rng);
+    }
+    return { targetX, reactionSpeed: reactionSpeedFor(difficulty) };
+  },
+};
+
+export const AI_CONTROLLERS: Record<AIPersonality, AIController> = {
+  classic,
+  follower,
+  predictor,
+  defensive,
+  aggressive,
+};
+
+// Unknown personalities, including names that only exist on Object.prototype, fall back to classic.
+export const getAIController = (personality: AIPersonality): AIController =>
+  Object.hasOwn(AI_CONTROLLERS, personality) ? AI_CONTROLLERS[personality] : classic;
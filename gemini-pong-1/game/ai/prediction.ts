@@ -0,0 +1,66 @@
+import { GAME_WIDTH, BALL_RADIUS } from '../../constants';
+import { SweepHit, sweepCircleSideWalls } from '../collision';
+import { bounceOffBlock, sweepBlock } from '../physics';
+import { BallState, BlockState, SimulationState } from '../types';
+
+// --- Trajectory Prediction ---
+
+// Give up on paths that bounce around the blocks more than this.
+const MAX_PREDICTED_BOUNCES = 12;
+
+/**
+ * The original AI's estimate: straight-line extrapolation to `targetY`, folded back once if it
+ * passes through a side wall. Blocks are ignored.
+ */
+export const predictWithSingleBounce = (ball: BallState, targetY: number): number => {
+  const timeToReachPaddle = (targetY - ball.y) / ball.velocity.y;
+  let predictedX = ball.x + ball.velocity.x * timeToReachPaddle;
+
+  if (predictedX < BALL_RADIUS) {
+    predictedX = BALL_RADIUS + (BALL_RADIUS - predictedX);
+  } else if (predictedX > GAME_WIDTH - BALL_RADIUS) {
+    predictedX = (GAME_WIDTH - BALL_RADIUS) - (predictedX - (GAME_WIDTH - BALL_RADIUS));
+  }
+  return predictedX;
+};
+
+/**
+ * Follows `start` through every wall and block bounce, using the simulation's own bounce rules,
+ * until its center crosses `targetY`. Returns the crossing X, or null if the ball never gets there
+ * (it is moving away, or a block sends it back).
+ */
+export const predictWithBounces = (
+  state: Readonly<SimulationState>,
+  start: Readonly<BallState>,
+  targetY: number,
+): number | null => {
+  const ball: BallState = { ...start, velocity: { ...start.velocity } };
+  const blocks = state.blocks.filter(block => block.visible);
+
+  for (let i = 0; i <= MAX_PREDICTED_BOUNCES; i++) {
+    if (ball.velocity.y === 0) return null;
+    const steps = (targetY - ball.y) / ball.velocity.y;
+    if (steps < 0) return null;
+
+    const motion = { x: ball.velocity.x * steps, y: ball.velocity.y * steps };
+    let first: (SweepHit & { block?: BlockState }) | null = null;
+    const consider = (hit: SweepHit | null, block?: BlockState) => {
+      if (!hit || motion.x * hit.normal.x + motion.y * hit.normal.y >= 0) return;
+      if (!first || hit.time < first.time) first = { ...hit, block };
+    };
+    consider(sweepCircleSideWalls(ball, motion, BALL_RADIUS, GAME_WIDTH));
+    blocks.forEach(block => consider(sweepBlock(ball, motion, BALL_RADIUS, block), block));
+
+    const hit = first as (SweepHit & { block?: BlockState }) | null;
+    if (!hit) return ball.x + motion.x;
+
+    ball.x += motion.x * hit.time;
+    ball.y += motion.y * hit.time;
+    if (hit.block) {
+      bounceOffBlock(ball, hit.block, hit.normal);
+    } else {
+      ball.velocity.x *= -1;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,17 @@
+import { BALL_RADIUS } from '../../constants';
+import { BallState, PaddleState } from '../types';
+
+// --- Threat Selection ---
+// With several balls in play the AI can only chase one. It defends the ball that will reach its
+// paddle first; when none is coming, it keeps an eye on the closest.
+
+export const selectThreat = (balls: readonly BallState[], paddle: Readonly<PaddleState>): BallState => {
+  const contactY = paddle.y + paddle.height + BALL_RADIUS;
+  const arrival = (ball: BallState) => (ball.y - contactY) / -ball.velocity.y;
+
+  const approaching = balls.filter(ball => ball.velocity.y < 0);
+  if (approaching.length > 0) {
+    return approaching.reduce((first, ball) => (arrival(ball) < arrival(first) ? ball : first));
+  }
+  return balls.reduce((closest, ball) => (ball.y < closest.y ? ball : closest));
+};
@@ -0,0 +1,40 @@
+import { RandomSource } from '../rng';
+import { BallState, PaddleState, SimulationState } from '../types';
+
+export type AIPersonality = 'classic' | 'follower' | 'predictor' | 'defensive' | 'aggressive';
+
+// What the opponent is playing as; part of the simulation config so replays re-create it.
+export type AISettings = {
+  personality: AIPersonality;
+  // 0 (easiest) to 1 (hardest). Independent of the ball speed settings.
+  difficulty: number;
+  // Let the difficulty drift between points to keep the match close, starting from `difficulty`.
+  adaptive: boolean;
+};
+
+export type AIObservation = {
+  state: Readonly<SimulationState>;
+  // The paddle being driven (always the top one).
+  paddle: Readonly<PaddleState>;
+  // The ball to defend, picked by selectThreat when several are in play.
+  ball: Readonly<BallState>;
+  difficulty: number;
+};
+
+export type AIDecision = {
+  // Where the paddle's center should head.
+  targetX: number;
+  // Fraction of the remaining distance covered per step, as in the original easing movement.
+  reactionSpeed: number;
+};
+
+/**
+ * An AI opponent. Controllers are stateless: everything they need comes from the observation, and
+ * any randomness must be drawn from `rng` so that seeded matches stay reproducible.
+ */
+export interface AIController {
+  id: AIPersonality;
+  name: string;
+  description: string;
+  decide(observation: AIObservation, rng: RandomSource): AIDecision;
+}
@@ -0,0 +1,35 @@
+import { PlayerNames, Score } from '../types';
+import { GameEventBus } from './events';
+
+// --- Announcements ---
+// What a screen reader hears about a match while it plays: points, sets and sudden death. App
+// shows these in an ARIA live region; the match result is announced there from the match flow.
+
+const describeScore = (score: Score, names: PlayerNames) =>
+  `${names.player} ${score.player}, ${names.ai} ${score.ai}.`;
+
+// Sends a sentence to `announce` for every announced event until the returned function is
+// called. `names` is read on every event, as they can change during an online match. Events of the
+// same step are joined, since a live region only reads out its latest text.
+export const connectAnnouncements = (
+  events: GameEventBus,
+  names: () => PlayerNames,
+  announce: (message: string) => void,
+) => {
+  let lastTick = -1;
+  let message = '';
+  const say = (tick: number, sentence: string) => {
+    message = tick === lastTick ? `${message} ${sentence}` : sentence;
+    lastTick = tick;
+    announce(message);
+  };
+
+  const unsubscribes = [
+    events.on('point', ({ tick, scorer, score }) =>
+      say(tick, `Point to ${names()[scorer]}. ${describeScore(score, names())}`)),
+    events.on('setWon', ({ tick, winner, sets }) =>
+      say(tick, `Set to ${names()[winner]}. Sets: ${describeScore(sets, names())}`)),
+    events.on('suddenDeath', ({ tick }) => say(tick, 'Sudden death: the next point wins.')),
+  ];
+  return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+};
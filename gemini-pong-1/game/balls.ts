@@ -0,0 +1,35 @@
+import { BallState, SimulationState, Vector } from './types';
+
+// --- Balls ---
+// Any number of balls can be in play. Each carries its own velocity and speed progression, and an
+// id that stays with it for its whole life so the renderer can follow it from step to step.
+
+// Balls served at once in a multi-ball match.
+export const MULTI_BALL_COUNT = 3;
+// Splits never put more balls than this in play.
+export const MAX_BALLS = 8;
+// Copies made by a split head off this far either side of the original (20 degrees).
+const SPLIT_ANGLE = Math.PI / 9;
+
+export const addBall = (state: SimulationState, x: number, y: number, velocity: Vector, speed: number): BallState => {
+  const ball: BallState = { id: state.nextBallId++, x, y, velocity: { ...velocity }, speed };
+  state.balls.push(ball);
+  return ball;
+};
+
+export const removeBall = (state: SimulationState, ball: BallState) => {
+  state.balls = state.balls.filter(other => other.id !== ball.id);
+};
+
+const rotate = ({ x, y }: Vector, angle: number): Vector => ({
+  x: x * Math.cos(angle) - y * Math.sin(angle),
+  y: x * Math.sin(angle) + y * Math.cos(angle),
+});
+
+// Fans two copies of `ball` out either side of its heading, as far as MAX_BALLS allows.
+export const splitBall = (state: SimulationState, ball: BallState) => {
+  [-SPLIT_ANGLE, SPLIT_ANGLE].forEach(angle => {
+    if (state.balls.length >= MAX_BALLS) return;
+    addBall(state, ball.x, ball.y, rotate(ball.velocity, angle), ball.speed);
+  });
+};
@@ -0,0 +1,261 @@
+import { Vector } from './types';
+
+// --- Continuous Collision Detection ---
+// Swept tests report *when* during a step the ball first touches something, so a fast ball can
+// never skip over a thin paddle or block between two steps.
+
+export type Rect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type SweepHit = {
+  // Fraction of `motion` travelled before contact, in [0, 1]. 0 means the circle already overlaps.
+  time: number;
+  // Unit normal of the surface that was hit, pointing away from the rectangle.
+  normal: Vector;
+  // Only for overlaps (time 0): where to move the circle's center so it just touches the surface.
+  exitPosition?: Vector;
+};
+
+// Outward normal of the box face closest to a point inside it.
+const leastPenetrationNormal = (point: Vector, minX: number, minY: number, maxX: number, maxY: number): Vector => {
+  const penetrations = [
+    { depth: point.x - minX, normal: { x: -1, y: 0 } },
+    { depth: maxX - point.x, normal: { x: 1, y: 0 } },
+    { depth: point.y - minY, normal: { x: 0, y: -1 } },
+    { depth: maxY - point.y, normal: { x: 0, y: 1 } },
+  ];
+  return penetrations.reduce((a, b) => (b.depth < a.depth ? b : a)).normal;
+};
+
+// Slides a point along an axis-aligned normal onto the matching face of a box.
+const moveToFace = (point: Vector, normal: Vector, minX: number, minY: number, maxX: number, maxY: number): Vector => ({
+  x: normal.x < 0 ? minX : normal.x > 0 ? maxX : point.x,
+  y: normal.y < 0 ? minY : normal.y > 0 ? maxY : point.y,
+});
+
+/**
+ * Sweeps a circle from `position` along `motion` against an axis-aligned rectangle. The rectangle
+ * is grown by the radius (a Minkowski sum with square corners) so the test becomes a ray cast
+ * against a box, using the slab method.
+ */
+export const sweepCircleRect = (position: Vector, motion: Vector, radius: number, rect: Rect): SweepHit | null => {
+  const minX = rect.x - radius;
+  const maxX = rect.x + rect.width + radius;
+  const minY = rect.y - radius;
+  const maxY = rect.y + rect.height + radius;
+
+  // Already overlapping: push out along the axis of least penetration.
+  if (position.x > minX && position.x < maxX && position.y > minY && position.y < maxY) {
+    const normal = leastPenetrationNormal(position, minX, minY, maxX, maxY);
+    return { time: 0, normal, exitPosition: moveToFace(position, normal, minX, minY, maxX, maxY) };
+  }
+
+  let tEnter = -Infinity;
+  let tExit = Infinity;
+  let normal: Vector = { x: 0, y: 0 };
+
+  const axes: [number, number, number, number, Vector, Vector][] = [
+    [position.x, motion.x, minX, maxX, { x: -1, y: 0 }, { x: 1, y: 0 }],
+    [position.y, motion.y, minY, maxY, { x: 0, y: -1 }, { x: 0, y: 1 }],
+  ];
+  for (const [start, delta, min, max, minNormal, maxNormal] of axes) {
+    if (delta === 0) {
+      if (start < min || start > max) return null;
+      continue;
+    }
+    const t1 = (min - start) / delta;
+    const t2 = (max - start) / delta;
+    const tNear = Math.min(t1, t2);
+    const tFar = Math.max(t1, t2);
+    if (tNear > tEnter) {
+      tEnter = tNear;
+      normal = delta > 0 ? minNormal : maxNormal;
+    }
+    tExit = Math.min(tExit, tFar);
+  }
+
+  if (tEnter > tExit || tEnter < 0 || tEnter > 1) return null;
+  return { time: tEnter, normal };
+};
+
+const closestPointOnRect = (point: Vector, minX: number, minY: number, maxX: number, maxY: number): Vector => ({
+  x: Math.max(minX, Math.min(maxX, point.x)),
+  y: Math.max(minY, Math.min(maxY, point.y)),
+});
+
+/**
+ * Sweeps a circle against a rectangle with rounded corners, as drawn by `drawRoundedRect`. The
+ * Minkowski sum of the two is the rectangle's inner "core" (inset by the corner radius) grown by
+ * `radius + cornerRadius` in every direction, so the ray is tested against its four flat faces and
+ * the four quarter circles at the core's corners. The returned normal is the true contact normal:
+ * axis-aligned on a face, diagonal-ish on a corner.
+ */
+export const sweepCircleRoundedRect = (
+  position: Vector,
+  motion: Vector,
+  radius: number,
+  rect: Rect,
+  cornerRadius: number,
+): SweepHit | null => {
+  // drawRoundedRect clamps the corner radius the same way.
+  const corner = Math.max(0, Math.min(cornerRadius, rect.width / 2, rect.height / 2));
+  const minX = rect.x + corner;
+  const maxX = rect.x + rect.width - corner;
+  const minY = rect.y + corner;
+  const maxY = rect.y + rect.height - corner;
+  const reach = radius + corner;
+
+  const normalAt = (point: Vector): Vector => {
+    const closest = closestPointOnRect(point, minX, minY, maxX, maxY);
+    const dx = point.x - closest.x;
+    const dy = point.y - closest.y;
+    const length = Math.sqrt(dx * dx + dy * dy);
+    if (length > 0) return { x: dx / length, y: dy / length };
+    // Deep inside the core: fall back to the face of least penetration.
+    return leastPenetrationNormal(point, minX, minY, maxX, maxY);
+  };
+
+  // Already overlapping.
+  const closestToStart = closestPointOnRect(position, minX, minY, maxX, maxY);
+  if ((position.x - closestToStart.x) ** 2 + (position.y - closestToStart.y) ** 2 < reach * reach) {
+    const normal = normalAt(position);
+    const surfaceBase = moveToFace(closestToStart, normal, minX, minY, maxX, maxY);
+    return {
+      time: 0,
+      normal,
+      exitPosition: { x: surfaceBase.x + normal.x * reach, y: surfaceBase.y + normal.y * reach },
+    };
+  }
+
+  let earliest = Infinity;
+
+  // Flat faces: where the ray crosses each face line within the face's extent.
+  const faces: [number, number, number, number, number, boolean][] = [
+    // [start, delta, face coordinate, other axis start, other axis delta, is vertical face]
+    [position.x, motion.x, minX - reach, position.y, motion.y, true],
+    [position.x, motion.x, maxX + reach, position.y, motion.y, true],
+    [position.y, motion.y, minY - reach, position.x, motion.x, false],
+    [position.y, motion.y, maxY + reach, position.x, motion.x, false],
+  ];
+  for (const [start, delta, face, otherStart, otherDelta, vertical] of faces) {
+    if (delta === 0) continue;
+    const t = (face - start) / delta;
+    if (t < 0 || t > 1) continue;
+    const other = otherStart + otherDelta * t;
+    const [low, high] = vertical ? [minY, maxY] : [minX, maxX];
+    if (other >= low && other <= high) earliest = Math.min(earliest, t);
+  }
+
+  // Rounded corners: ray against a circle of radius `reach` around each core corner.
+  const a = motion.x * motion.x + motion.y * motion.y;
+  if (a > 0) {
+    for (const cx of [minX, maxX]) {
+      for (const cy of [minY, maxY]) {
+        const ox = position.x - cx;
+        const oy = position.y - cy;
+        const b = 2 * (ox * motion.x + oy * motion.y);
+        const c = ox * ox + oy * oy - reach * reach;
+        const discriminant = b * b - 4 * a * c;
+        if (discriminant < 0) continue;
+        const t = (-b - Math.sqrt(discriminant)) / (2 * a);
+        if (t >= 0 && t <= 1) earliest = Math.min(earliest, t);
+      }
+    }
+  }
+
+  if (earliest === Infinity) return null;
+  const contact = { x: position.x + motion.x * earliest, y: position.y + motion.y * earliest };
+  return { time: earliest, normal: normalAt(contact) };
+};
+
+// Sweeps a circle against the left (x = 0) and right (x = fieldWidth) walls of the field.
+export const sweepCircleSideWalls = (position: Vector, motion: Vector, radius: number, fieldWidth: number): SweepHit | null => {
+  if (motion.x < 0 && position.x + motion.x - radius < 0) {
+    return { time: Math.max(0, (radius - position.x) / motion.x), normal: { x: 1, y: 0 } };
+  }
+  if (motion.x > 0 && position.x + motion.x + radius > fieldWidth) {
+    return { time: Math.max(0, (fieldWidth - radius - position.x) / motion.x), normal: { x: -1, y: 0 } };
+  }
+  return null;
+};
+
+/**
+ * Sweeps a circle against a line segment from `a` to `b`. The Minkowski sum is a capsule: two
+ * lines parallel to the segment at distance `radius`, capped by circles around the endpoints. The
+ * returned normal points from the segment towards the circle at the moment of contact.
+ */
+export const sweepCircleSegment = (position: Vector, motion: Vector, radius: number, a: Vector, b: Vector): SweepHit | null => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const length = Math.sqrt(dx * dx + dy * dy);
+  if (length === 0) return null;
+  const along = { x: dx / length, y: dy / length };
+
+  const closestOnSegment = (point: Vector): Vector => {
+    const t = Math.max(0, Math.min(length, (point.x - a.x) * along.x + (point.y - a.y) * along.y));
+    return { x: a.x + along.x * t, y: a.y + along.y * t };
+  };
+
+  // Already overlapping: push out along the line from the closest point on the segment.
+  const closestToStart = closestOnSegment(position);
+  const offsetX = position.x - closestToStart.x;
+  const offsetY = position.y - closestToStart.y;
+  const distance = Math.sqrt(offsetX * offsetX + offsetY * offsetY);
+  if (distance < radius) {
+    // Exactly on the line: push out to whichever side the ball is coming from.
+    const side = -Math.sign(motion.x * -along.y + motion.y * along.x) || 1;
+    const normal = distance > 0 ? { x: offsetX / distance, y: offsetY / distance } : { x: -along.y * side, y: along.x * side };
+    return {
+      time: 0,
+      normal,
+      exitPosition: { x: closestToStart.x + normal.x * radius, y: closestToStart.y + normal.y * radius },
+    };
+  }
+
+  let earliest = Infinity;
+  let earliestNormal: Vector = { x: 0, y: 0 };
+
+  // The two long sides of the capsule. Only the one facing the circle can be hit first.
+  const perpendicular = { x: -along.y, y: along.x };
+  const startSide = (position.x - a.x) * perpendicular.x + (position.y - a.y) * perpendicular.y;
+  const normal = startSide >= 0 ? perpendicular : { x: -perpendicular.x, y: -perpendicular.y };
+  const approach = motion.x * normal.x + motion.y * normal.y;
+  if (approach < 0) {
+    const t = (radius - Math.abs(startSide)) / approach;
+    if (t >= 0 && t <= 1) {
+      const projected = (position.x + motion.x * t - a.x) * along.x + (position.y + motion.y * t - a.y) * along.y;
+      if (projected >= 0 && projected <= length) {
+        earliest = t;
+        earliestNormal = normal;
+      }
+    }
+  }
+
+  // The rounded ends: ray against a circle of `radius` around each endpoint.
+  const qa = motion.x * motion.x + motion.y * motion.y;
+  if (qa > 0) {
+    for (const end of [a, b]) {
+      const ox = position.x - end.x;
+      const oy = position.y - end.y;
+      const qb = 2 * (ox * motion.x + oy * motion.y);
+      const qc = ox * ox + oy * oy - radius * radius;
+      const discriminant = qb * qb - 4 * qa * qc;
+      if (discriminant < 0) continue;
+      const t = (-qb - Math.sqrt(discriminant)) / (2 * qa);
+      if (t >= 0 && t <= 1 && t < earliest) {
+        earliest = t;
+        earliestNormal = {
+          x: (position.x + motion.x * t - end.x) / radius,
+          y: (position.y + motion.y * t - end.y) / radius,
+        };
+      }
+    }
+  }
+
+  if (earliest === Infinity) return null;
+  return { time: earliest, normal: earliestNormal };
+};
@@ -0,0 +1,171 @@
+import { Score } from '../types';
+import { BlockType } from './levels';
+import { PowerUpKind } from './powerups';
+import { MatchState } from './rules';
+import { BallState, BlockState, PaddleState, Side, SimulationEvent, SimulationState, Vector } from './types';
+
+// --- Game Events ---
+// The simulation's events, filled in with what outside listeners (sound, telemetry, achievements)
+// need: the tick each one happened on and the positions and speeds involved. The game publishes
+// them on a GameEventBus after every step; nothing here feeds back into the simulation.
+
+export type BallSnapshot = {
+  id: number;
+  x: number;
+  y: number;
+  velocity: Vector;
+  // Pixels per step.
+  speed: number;
+};
+
+export type BlockSnapshot = {
+  id: number;
+  type: BlockType;
+  // Top-left corner.
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  health: number;
+};
+
+export type GameEventMap = {
+  serve: { server: Side; direction: number; balls: BallSnapshot[] };
+  wallBounce: { ball: BallSnapshot };
+  paddleHit: { side: Side; ball: BallSnapshot; paddle: PaddleState };
+  blockHit: { block: BlockSnapshot; ball: BallSnapshot };
+  // Where the block broke, which is where its pieces fly from.
+  blockDestroyed: { block: BlockSnapshot; ball: BallSnapshot; x: number; y: number };
+  blockRegenerated: { block: BlockSnapshot };
+  // `ball` is the scoring ball's last position on the court; `score` the set score once the point
+  // was added, even when it ended the set.
+  point: { scorer: Side; ball: BallSnapshot; score: Score; sets: Score };
+  suddenDeath: { score: Score };
+  setWon: { winner: Side; score: Score; sets: Score };
+  matchEnd: { winner: Side; sets: Score; setScores: Score[] };
+  difficultyChange: { difficulty: number };
+  powerUpSpawned: { capsuleId: number; kind: PowerUpKind; x: number; y: number };
+  powerUpCollected: { kind: PowerUpKind; side: Side; paddle: PaddleState };
+  powerUpExpired: { kind: PowerUpKind; side: Side };
+  ballCaught: { side: Side; ball: BallSnapshot };
+  ballReleased: { side: Side; ball: BallSnapshot };
+  shieldSaved: { side: Side; ball: BallSnapshot };
+  // The score or match progress changed; also sent once when a match starts.
+  scoreChange: { score: Score; match: MatchState };
+};
+
+export type GameEventType = keyof GameEventMap;
+
+export type GameEventOf<K extends GameEventType> = { type: K; tick: number } & GameEventMap[K];
+
+export type GameEvent = { [K in GameEventType]: GameEventOf<K> }[GameEventType];
+
+type Listener<K extends GameEventType> = (event: GameEventOf<K>) => void;
+
+export class GameEventBus {
+  private readonly listeners = new Map<GameEventType, Set<Listener<GameEventType>>>();
+  private readonly anyListeners = new Set<(event: GameEvent) => void>();
+
+  // Subscribes to one type of event. Returns an unsubscribe function.
+  on<K extends GameEventType>(type: K, listener: Listener<K>) {
+    // Each set only ever holds listeners for its own type, and emit only hands them that type.
+    const stored = listener as Listener<GameEventType>;
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+    this.listeners.get(type)!.add(stored);
+    return () => {
+      this.listeners.get(type)?.delete(stored);
+    };
+  }
+
+  // Subscribes to every event, e.g. for logging. Returns an unsubscribe function.
+  onAny(listener: (event: GameEvent) => void) {
+    this.anyListeners.add(listener);
+    return () => {
+      this.anyListeners.delete(listener);
+    };
+  }
+
+  emit(event: GameEvent) {
+    this.listeners.get(event.type)?.forEach(listener => listener(event));
+    this.anyListeners.forEach(listener => listener(event));
+  }
+}
+
+// Simulation events after which the score or match progress has changed.
+const SCORING_EVENTS = new Set<SimulationEvent['type']>(['point', 'suddenDeath', 'setWon', 'matchEnd']);
+
+const snapshotBall = ({ id, x, y, velocity, speed }: BallState): BallSnapshot => ({
+  id, x, y, velocity: { ...velocity }, speed,
+});
+
+const snapshotBlock = ({ id, type, x, y, width, height, health }: BlockState): BlockSnapshot => ({
+  id, type, x, y, width, height, health,
+});
+
+export const scoreChangeEvent = (state: Readonly<SimulationState>): GameEventOf<'scoreChange'> => ({
+  type: 'scoreChange',
+  tick: state.tick,
+  score: { ...state.score },
+  match: structuredClone(state.match),
+});
+
+/**
+ * Turns one step's simulation events into game events. `before` is the state the step started
+ * from and `after` the state it produced; a ball is looked up in `after` first, then in `before`
+ * for balls that left play during the step. An event whose ball is in neither is dropped.
+ */
+export const describeStep = (
+  events: readonly SimulationEvent[],
+  before: Readonly<SimulationState>,
+  after: Readonly<SimulationState>,
+): GameEvent[] => {
+  const { tick, match } = after;
+  const findBall = (ballId: number) => {
+    const ball = after.balls.find(b => b.id === ballId) ?? before.balls.find(b => b.id === ballId);
+    return ball ? snapshotBall(ball) : null;
+  };
+  const block = (blockId: number) => snapshotBlock(after.blocks[blockId]);
+  const paddle = (side: Side) => ({ ...after.paddles[side] });
+  const setWon = events.find(event => event.type === 'setWon');
+  const pointScore = setWon?.type === 'setWon' ? setWon.score : after.score;
+
+  const described = events.flatMap((event): GameEvent[] => {
+    const ball = 'ballId' in event ? findBall(event.ballId) : null;
+    switch (event.type) {
+      case 'serve':
+        return [{ type: 'serve', tick, server: event.server, direction: event.direction, balls: after.balls.map(snapshotBall) }];
+      case 'wallBounce':
+        return ball ? [{ type: 'wallBounce', tick, ball }] : [];
+      case 'paddleHit':
+        return ball ? [{ type: 'paddleHit', tick, side: event.side, ball, paddle: paddle(event.side) }] : [];
+      case 'blockHit':
+        return ball ? [{ type: 'blockHit', tick, block: block(event.blockId), ball }] : [];
+      case 'blockDestroyed':
+        return ball ? [{ type: 'blockDestroyed', tick, block: block(event.blockId), ball, x: event.x, y: event.y }] : [];
+      case 'blockRegenerated':
+        return [{ type: 'blockRegenerated', tick, block: block(event.blockId) }];
+      case 'point':
+        return ball ? [{ type: 'point', tick, scorer: event.scorer, ball, score: { ...pointScore }, sets: { ...match.sets } }] : [];
+      case 'suddenDeath':
+        return [{ type: 'suddenDeath', tick, score: { ...after.score } }];
+      case 'setWon':
+        return [{ type: 'setWon', tick, winner: event.winner, score: { ...event.score }, sets: { ...match.sets } }];
+      case 'matchEnd':
+        return [{ type: 'matchEnd', tick, winner: event.winner, sets: { ...match.sets }, setScores: structuredClone(match.setScores) }];
+      case 'difficultyChange':
+        return [{ type: 'difficultyChange', tick, difficulty: event.difficulty }];
+      case 'powerUpSpawned':
+        return [{ type: 'powerUpSpawned', tick, capsuleId: event.capsuleId, kind: event.kind, x: event.x, y: event.y }];
+      case 'powerUpCollected':
+        return [{ type: 'powerUpCollected', tick, kind: event.kind, side: event.side, paddle: paddle(event.side) }];
+      case 'powerUpExpired':
+        return [{ type: 'powerUpExpired', tick, kind: event.kind, side: event.side }];
+      case 'ballCaught':
+      case 'ballReleased':
+      case 'shieldSaved':
+        return ball ? [{ type: event.type, tick, side: event.side, ball }] : [];
+    }
+  });
+  if (events.some(event => SCORING_EVENTS.has(event.type))) described.push(scoreChangeEvent(after));
+  return described;
+};
@@ -0,0 +1,237 @@
+import { GameMode, PlayerNames, Score } from '../types';
+import { AI_CONTROLLERS } from './ai/controllers';
+import { AIPersonality } from './ai/types';
+import { MAX_BALLS } from './balls';
+import { MatchState, readRules } from './rules';
+import { MatchStats } from './stats';
+import { Side, SimulationConfig } from './types';
+
+// --- Match History ---
+// One entry per finished match: the settings it was played with, how it ended and its statistics.
+// Entries are plain JSON so they can be stored, exported and imported as they are.
+
+export const HISTORY_VERSION = 1;
+
+// The match config without the level layout, which is kept by name only.
+export type MatchSettings = Omit<SimulationConfig, 'level'> & { levelName: string };
+
+export type MatchResult = {
+  id: string;
+  // ISO 8601 date the match ended.
+  playedAt: string;
+  settings: MatchSettings;
+  names: PlayerNames;
+  winner: Side;
+  sets: Score;
+  setScores: Score[];
+  stats: MatchStats;
+};
+
+export type HistoryFile = {
+  version: number;
+  results: MatchResult[];
+};
+
+export const createMatchResult = (
+  config: SimulationConfig,
+  names: PlayerNames,
+  match: MatchState,
+  stats: MatchStats,
+  playedAt = new Date(),
+): MatchResult => {
+  const { level, ...settings } = config;
+  return {
+    id: `${playedAt.getTime()}-${config.seed}`,
+    playedAt: playedAt.toISOString(),
+    settings: structuredClone({ ...settings, levelName: level.name }),
+    names: { ...names },
+    winner: match.winner ?? (match.sets.player > match.sets.ai ? 'player' : 'ai'),
+    sets: { ...match.sets },
+    setScores: match.setScores.map(score => ({ ...score })),
+    stats: structuredClone(stats),
+  };
+};
+
+// --- Filtering ---
+
+export type ResultFilter = 'all' | 'win' | 'loss';
+
+export type HistoryFilter = {
+  mode: GameMode | 'all';
+  // Only applies to matches against the AI.
+  personality: AIPersonality | 'all';
+  // Seen from the bottom paddle: "win" means the player (or player one) won.
+  result: ResultFilter;
+};
+
+export const ALL_RESULTS: HistoryFilter = { mode: 'all', personality: 'all', result: 'all' };
+
+export const filterResults = (results: readonly MatchResult[], filter: HistoryFilter) => results.filter(result => {
+  const { mode, ai } = result.settings;
+  if (filter.mode !== 'all' && mode !== filter.mode) return false;
+  if (filter.personality !== 'all' && (mode !== GameMode.VsAI || ai.personality !== filter.personality)) return false;
+  if (filter.result !== 'all' && (result.winner === 'player') !== (filter.result === 'win')) return false;
+  return true;
+});
+
+// Newest first.
+export const sortByDate = (results: readonly MatchResult[]) =>
+  [...results].sort((a, b) => b.playedAt.localeCompare(a.playedAt));
+
+// Points across all sets.
+export const totalPoints = (result: MatchResult): Score => result.setScores.reduce(
+  (total, set) => ({ player: total.player + set.player, ai: total.ai + set.ai }),
+  { player: 0, ai: 0 },
+);
+
+// --- Streaks ---
+
+export type DifficultyRecord = {
+  // Starting difficulty as a whole percentage, so slider positions group together.
+  difficulty: number;
+  played: number;
+  wins: number;
+  losses: number;
+  // The run the latest match belongs to: positive for wins, negative for losses.
+  currentStreak: number;
+  longestWinStreak: number;
+};
+
+// Win/loss record against the AI at each starting difficulty, lowest difficulty first.
+export const recordsByDifficulty = (results: readonly MatchResult[]): DifficultyRecord[] => {
+  const records = new Map<number, DifficultyRecord>();
+  sortByDate(results).reverse().forEach(result => {
+    if (result.settings.mode !== GameMode.VsAI) return;
+    const difficulty = Math.round(result.settings.ai.difficulty * 100);
+    let record = records.get(difficulty);
+    if (!record) {
+      record = { difficulty, played: 0, wins: 0, losses: 0, currentStreak: 0, longestWinStreak: 0 };
+      records.set(difficulty, record);
+    }
+    record.played += 1;
+    if (result.winner === 'player') {
+      record.wins += 1;
+      record.currentStreak = Math.max(record.currentStreak, 0) + 1;
+      record.longestWinStreak = Math.max(record.longestWinStreak, record.currentStreak);
+    } else {
+      record.losses += 1;
+      record.currentStreak = Math.min(record.currentStreak, 0) - 1;
+    }
+  });
+  return [...records.values()].sort((a, b) => a.difficulty - b.difficulty);
+};
+
+// --- High Scores ---
+// Single-player matches are scored on points won and conceded, with a bonus for winning, then
+// multiplied up for harder opponents: 100 per point won, -50 per point conceded, +1000 for the
+// win, times (1 + starting difficulty). Never below zero.
+
+const POINT_WON_SCORE = 100;
+const POINT_CONCEDED_SCORE = -50;
+const WIN_BONUS = 1000;
+export const HIGH_SCORE_ENTRIES = 10;
+
+export const matchScore = (result: MatchResult) => {
+  const points = totalPoints(result);
+  const base = points.player * POINT_WON_SCORE + points.ai * POINT_CONCEDED_SCORE +
+    (result.winner === 'player' ? WIN_BONUS : 0);
+  return Math.max(0, Math.round(base * (1 + result.settings.ai.difficulty)));
+};
+
+export type HighScore = { score: number; result: MatchResult };
+
+// Best single-player matches, highest score first; ties go to the earlier match.
+export const highScores = (results: readonly MatchResult[], limit = HIGH_SCORE_ENTRIES): HighScore[] => results
+  .filter(result => result.settings.mode === GameMode.VsAI)
+  .map(result => ({ score: matchScore(result), result }))
+  .sort((a, b) => b.score - a.score || a.result.playedAt.localeCompare(b.result.playedAt))
+  .slice(0, limit);
+
+// --- Import ---
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isScore = (value: unknown): value is Score => {
+  const score = value as Score | null;
+  return !!score && typeof score === 'object' && isFiniteNumber(score.player) && isFiniteNumber(score.ai);
+};
+
+const isStats = (value: unknown): value is MatchStats => {
+  const stats = value as MatchStats | null;
+  return (
+    !!stats &&
+    typeof stats === 'object' &&
+    (['durationSeconds', 'rallies', 'longestRally', 'averageRally', 'averageSpeed', 'topSpeed'] as const)
+      .every(key => isFiniteNumber(stats[key])) &&
+    (['paddleHits', 'blocksBroken', 'directPoints', 'blockPoints'] as const).every(key => isScore(stats[key])) &&
+    Array.isArray(stats.timeline)
+  );
+};
+
+// Validates a history entry read from a file or from storage, throwing if it cannot be shown.
+export const readMatchResult = (data: unknown): MatchResult => {
+  const result = data as Partial<MatchResult> | null;
+  const settings = result?.settings;
+  const settingKeys = ['seed', 'initialBallSpeed', 'speedIncrease', 'paddleWidth', 'paddleHeight', 'ballCount'] as const;
+  if (
+    !result ||
+    typeof result !== 'object' ||
+    typeof result.id !== 'string' ||
+    typeof result.playedAt !== 'string' ||
+    Number.isNaN(Date.parse(result.playedAt)) ||
+    !settings ||
+    settingKeys.some(key => !isFiniteNumber(settings[key])) ||
+    !(settings.mode in GameMode) ||
+    !Number.isInteger(settings.ballCount) ||
+    settings.ballCount < 1 ||
+    settings.ballCount > MAX_BALLS ||
+    typeof settings.levelName !== 'string' ||
+    typeof settings.powerUps !== 'boolean' ||
+    !settings.ai ||
+    !Object.hasOwn(AI_CONTROLLERS, settings.ai.personality) ||
+    !isFiniteNumber(settings.ai.difficulty) ||
+    typeof settings.ai.adaptive !== 'boolean' ||
+    !result.names ||
+    typeof result.names.player !== 'string' ||
+    typeof result.names.ai !== 'string' ||
+    (result.winner !== 'player' && result.winner !== 'ai') ||
+    !isScore(result.sets) ||
+    !Array.isArray(result.setScores) ||
+    !result.setScores.every(isScore) ||
+    !isStats(result.stats)
+  ) {
+    throw new Error('Invalid match result.');
+  }
+  return { ...result, settings: { ...settings, rules: readRules(settings.rules) } } as MatchResult;
+};
+
+/**
+ * Reads an exported history file. Entries that fail validation are skipped rather than failing the
+ * whole import; the file itself must still be a history export.
+ */
+export const parseHistoryFile = (json: string): MatchResult[] => {
+  let data: Partial<HistoryFile>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('History file is not valid JSON.');
+  }
+  if (!data || typeof data !== 'object' || !Array.isArray(data.results)) {
+    throw new Error('Not a match history file.');
+  }
+  if (data.version !== HISTORY_VERSION) {
+    throw new Error(`Unsupported history version: ${data.version}`);
+  }
+  return data.results.flatMap(entry => {
+    try {
+      return [readMatchResult(entry)];
+    } catch {
+      return [];
+    }
+  });
+};
+
+export const createHistoryFile = (results: readonly MatchResult[]): HistoryFile => ({
+  version: HISTORY_VERSION,
+  results: sortByDate(results),
+});
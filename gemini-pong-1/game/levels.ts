@@ -0,0 +1,285 @@
+import { GAME_WIDTH, GAME_HEIGHT, BALL_RADIUS } from '../constants';
+import { Rect } from './collision';
+
+// --- Level Format ---
+// A level is a JSON document describing the blocks on the field. Levels are validated once when
+// they are loaded, so the simulation can trust every rectangle it is given.
+
+export const LEVEL_FORMAT_VERSION = 1;
+
+export const DEFAULT_BLOCK_COLOR = '#4A5568'; // Gray
+
+// How a block reacts to the ball. Blocks without a type in the file are breakable.
+export type BlockType = 'breakable' | 'indestructible' | 'moving' | 'regenerating' | 'deflector' | 'bumper';
+
+type BlockTypeInfo = {
+  name: string;
+  description: string;
+  // Whether hits cost health. The other types ignore their health.
+  breakable: boolean;
+  // Suggested color when a block is given this type in the editor.
+  color: string;
+};
+
+export const BLOCK_TYPES: Record<BlockType, BlockTypeInfo> = {
+  breakable: {
+    name: 'Breakable',
+    description: 'Loses one health per hit and disappears at zero.',
+    breakable: true,
+    color: DEFAULT_BLOCK_COLOR,
+  },
+  indestructible: {
+    name: 'Indestructible',
+    description: 'A solid wall that never breaks.',
+    breakable: false,
+    color: '#94A3B8',
+  },
+  moving: {
+    name: 'Moving',
+    description: 'Slides back and forth along its path, and breaks like a normal block.',
+    breakable: true,
+    color: '#D97706',
+  },
+  regenerating: {
+    name: 'Regenerating',
+    description: 'Breaks, then grows back after a delay.',
+    breakable: true,
+    color: '#16A34A',
+  },
+  deflector: {
+    name: 'Deflector',
+    description: 'An angled mirror across its box that reflects the ball off its surface.',
+    breakable: false,
+    color: '#0EA5E9',
+  },
+  bumper: {
+    name: 'Bumper',
+    description: 'Never breaks, and sends the ball away faster than it arrived.',
+    breakable: false,
+    color: '#E11D48',
+  },
+};
+
+// Which diagonal of its box a deflector runs along: "rising" is /, "falling" is \.
+export type DeflectorSlope = 'rising' | 'falling';
+
+// A moving block's far end, relative to its start, and the seconds for a full round trip.
+export type BlockPath = { x: number; y: number; period: number };
+
+export const DEFAULT_BLOCK_PATH: BlockPath = { x: 160, y: 0, period: 4 };
+export const DEFAULT_REGROW_DELAY = 5;
+
+export type LevelBlock = Rect & {
+  type: BlockType;
+  // Hits needed to destroy the block.
+  health: number;
+  // CSS hex color, e.g. "#4A5568".
+  color: string;
+  // Moving blocks only.
+  path?: BlockPath;
+  // Regenerating blocks only: seconds before a destroyed block grows back.
+  regrowDelay?: number;
+  // Deflectors only.
+  slope?: DeflectorSlope;
+};
+
+export type LevelDefinition = {
+  version: number;
+  name: string;
+  description: string;
+  // Whether destroyed and damaged blocks are restored after every point.
+  regenerate: boolean;
+  blocks: LevelBlock[];
+};
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+// Fills in the settings the block's type needs, and drops those it does not use.
+export const withTypeDefaults = (block: LevelBlock): LevelBlock => {
+  const { path, regrowDelay, slope, ...rest } = block;
+  switch (block.type) {
+    case 'moving':
+      return { ...rest, path: path ?? { ...DEFAULT_BLOCK_PATH } };
+    case 'regenerating':
+      return { ...rest, regrowDelay: regrowDelay ?? DEFAULT_REGROW_DELAY };
+    case 'deflector':
+      return { ...rest, slope: slope ?? 'rising' };
+    default:
+      return rest;
+  }
+};
+
+// The area a block can ever occupy: its box, stretched along its path if it moves.
+export const blockExtent = (block: LevelBlock): Rect => {
+  if (block.type !== 'moving' || !block.path) return block;
+  const x = Math.min(block.x, block.x + block.path.x);
+  const y = Math.min(block.y, block.y + block.path.y);
+  return {
+    x,
+    y,
+    width: Math.max(block.x, block.x + block.path.x) + block.width - x,
+    height: Math.max(block.y, block.y + block.path.y) + block.height - y,
+  };
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Rectangles that only share an edge do not overlap.
+const rectsOverlap = (a: Rect, b: Rect) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+// The area the ball occupies when it is served from the center of the field.
+const SERVE_AREA: Rect = {
+  x: GAME_WIDTH / 2 - BALL_RADIUS,
+  y: GAME_HEIGHT / 2 - BALL_RADIUS,
+  width: BALL_RADIUS * 2,
+  height: BALL_RADIUS * 2,
+};
+
+export type LevelProblem = {
+  message: string;
+  // Indices of the blocks involved.
+  blocks: number[];
+};
+
+/**
+ * Lists everything wrong with the placement of a level's blocks: blocks leaving the field,
+ * overlapping each other, or covering the serve spot. Moving blocks are checked along their whole
+ * path. An empty list means the level is playable. Blocks are numbered from 1 in the messages, in
+ * the order they appear in the file.
+ */
+export const validateLevel = (level: LevelDefinition): LevelProblem[] => {
+  const problems: LevelProblem[] = [];
+  const extents = level.blocks.map(blockExtent);
+  extents.forEach((block, index) => {
+    if (block.x < 0 || block.y < 0 || block.x + block.width > GAME_WIDTH || block.y + block.height > GAME_HEIGHT) {
+      problems.push({
+        message:
+          `Block ${index + 1} is out of bounds: it spans (${block.x}, ${block.y}) to ` +
+          `(${block.x + block.width}, ${block.y + block.height}) but the field is ${GAME_WIDTH}x${GAME_HEIGHT}.`,
+        blocks: [index],
+      });
+    }
+    if (rectsOverlap(block, SERVE_AREA)) {
+      problems.push({ message: `Block ${index + 1} covers the serve spot at the center of the field.`, blocks: [index] });
+    }
+    extents.slice(index + 1).forEach((other, offset) => {
+      if (rectsOverlap(block, other)) {
+        const otherIndex = index + offset + 1;
+        problems.push({ message: `Blocks ${index + 1} and ${otherIndex + 1} overlap.`, blocks: [index, otherIndex] });
+      }
+    });
+  });
+  return problems;
+};
+
+const isBlockType = (value: unknown): value is BlockType => typeof value === 'string' && Object.hasOwn(BLOCK_TYPES, value);
+
+const parseBlock = (data: unknown, index: number): LevelBlock => {
+  const label = `Block ${index + 1}`;
+  if (!data || typeof data !== 'object') {
+    throw new Error(`${label} is not an object.`);
+  }
+  const block = data as Record<string, unknown>;
+  const { type = 'breakable', x, y, width, height, health = 1, color = DEFAULT_BLOCK_COLOR } = block;
+  if (!isBlockType(type)) {
+    throw new Error(`${label} has unknown type ${JSON.stringify(type)}.`);
+  }
+  if (!isFiniteNumber(x) || !isFiniteNumber(y) || !isFiniteNumber(width) || !isFiniteNumber(height)) {
+    throw new Error(`${label} needs numeric x, y, width and height.`);
+  }
+  if (width <= 0 || height <= 0) {
+    throw new Error(`${label} must have a positive width and height.`);
+  }
+  if (typeof health !== 'number' || !Number.isInteger(health) || health < 1) {
+    throw new Error(`${label} has invalid health ${JSON.stringify(health)}; use a whole number of at least 1.`);
+  }
+  if (typeof color !== 'string' || !HEX_COLOR.test(color)) {
+    throw new Error(`${label} has invalid color ${JSON.stringify(color)}; use a hex color such as "#4A5568".`);
+  }
+
+  let path: BlockPath | undefined;
+  if (type === 'moving' && block.path !== undefined) {
+    const pathData = block.path as Partial<Record<keyof BlockPath, unknown>> | null;
+    if (
+      !pathData ||
+      typeof pathData !== 'object' ||
+      !isFiniteNumber(pathData.x) ||
+      !isFiniteNumber(pathData.y) ||
+      !isFiniteNumber(pathData.period) ||
+      pathData.period <= 0
+    ) {
+      throw new Error(`${label} needs a path with numeric x and y and a positive period in seconds.`);
+    }
+    path = { x: pathData.x, y: pathData.y, period: pathData.period };
+  }
+  let regrowDelay: number | undefined;
+  if (type === 'regenerating' && block.regrowDelay !== undefined) {
+    if (!isFiniteNumber(block.regrowDelay) || block.regrowDelay < 0) {
+      throw new Error(`${label} has invalid regrowDelay ${JSON.stringify(block.regrowDelay)}; use seconds of at least 0.`);
+    }
+    regrowDelay = block.regrowDelay;
+  }
+  let slope: DeflectorSlope | undefined;
+  if (type === 'deflector' && block.slope !== undefined) {
+    if (block.slope !== 'rising' && block.slope !== 'falling') {
+      throw new Error(`${label} has invalid slope ${JSON.stringify(block.slope)}; use "rising" or "falling".`);
+    }
+    slope = block.slope;
+  }
+  return withTypeDefaults({ type, x, y, width, height, health, color, path, regrowDelay, slope });
+};
+
+/**
+ * Reads a level from decoded JSON, throwing a readable error if it is malformed. Block placement
+ * is not checked, so the editor can open a layout that still needs fixing; use parseLevel for
+ * anything that is about to be played.
+ */
+export const readLevel = (data: unknown): LevelDefinition => {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Level is not a JSON object.');
+  }
+  const level = data as Record<string, unknown>;
+  if (level.version !== LEVEL_FORMAT_VERSION) {
+    throw new Error(`Unsupported level version: ${level.version}`);
+  }
+  if (typeof level.name !== 'string' || !level.name.trim()) {
+    throw new Error('Level needs a name.');
+  }
+  const name = level.name;
+  const description = level.description ?? '';
+  if (typeof description !== 'string') {
+    throw new Error(`Level "${name}" has an invalid description.`);
+  }
+  if (typeof level.regenerate !== 'boolean') {
+    throw new Error(`Level "${name}" must say whether blocks regenerate (true or false).`);
+  }
+  if (!Array.isArray(level.blocks)) {
+    throw new Error(`Level "${name}" needs a list of blocks.`);
+  }
+
+  let blocks: LevelBlock[];
+  try {
+    blocks = level.blocks.map(parseBlock);
+  } catch (e) {
+    throw new Error(`Level "${name}": ${e instanceof Error ? e.message : e}`);
+  }
+
+  return {
+    version: LEVEL_FORMAT_VERSION,
+    name,
+    description,
+    regenerate: level.regenerate,
+    blocks,
+  };
+};
+
+// Parses a level from decoded JSON, throwing a readable error if it is malformed or unplayable.
+export const parseLevel = (data: unknown): LevelDefinition => {
+  const level = readLevel(data);
+  const problems = validateLevel(level);
+  if (problems.length > 0) {
+    throw new Error(`Level "${level.name}": ${problems.map(problem => problem.message).join(' ')}`);
+  }
+  return level;
+};
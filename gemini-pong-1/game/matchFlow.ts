@@ -0,0 +1,109 @@
+import { Side, SimulationEvent } from './types';
+
+// --- Match Flow ---
+// Which screen the app shows and, during a match, whether the ball is live. The simulation only
+// advances in 'inPlay'; every other phase holds it still. The same reducer runs in the browser and,
+// for online matches, on the match server.
+
+// Counts shown before each serve, one every COUNTDOWN_STEP_MS.
+export const COUNTDOWN_FROM = 3;
+const COUNTDOWN_STEP_MS = 600;
+// How long the "POINT!" banner holds play after a point.
+const INTERMISSION_MS = 1200;
+
+export type MatchFlowState =
+  | { phase: 'menu' }
+  | { phase: 'editor' }
+  | { phase: 'history' }
+  // Creating or joining an online match, and waiting for the opponent.
+  | { phase: 'lobby' }
+  | { phase: 'countdown'; count: number }
+  | { phase: 'inPlay' }
+  // A point (or a set, when time ran out) was just decided.
+  | { phase: 'pointScored'; scorer: Side; setOver: boolean }
+  | { phase: 'paused' }
+  | { phase: 'matchOver'; winner: Side };
+
+export type MatchPhase = MatchFlowState['phase'];
+
+export type MatchFlowAction =
+  | { type: 'openMenu' }
+  | { type: 'openEditor' }
+  | { type: 'openHistory' }
+  | { type: 'openLobby' }
+  | { type: 'startMatch' }
+  | { type: 'countdownTick' }
+  | { type: 'pointScored'; scorer: Side; setOver: boolean }
+  | { type: 'intermissionOver' }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'togglePause' }
+  | { type: 'matchEnd'; winner: Side }
+  // Adopts a flow decided elsewhere: online matches follow the match server's.
+  | { type: 'sync'; flow: MatchFlowState };
+
+export const INITIAL_MATCH_FLOW: MatchFlowState = { phase: 'menu' };
+
+const COUNTDOWN: MatchFlowState = { phase: 'countdown', count: COUNTDOWN_FROM };
+
+// Phases in which a match is on screen.
+const MATCH_PHASES = new Set<MatchPhase>(['countdown', 'inPlay', 'pointScored', 'paused']);
+
+export const isInMatch = (flow: MatchFlowState) => MATCH_PHASES.has(flow.phase);
+
+/**
+ * Applies an action to the flow. Actions that make no sense in the current phase (a point while
+ * paused, a pause on the menu) leave it unchanged, so callers can dispatch without checking first.
+ */
+export const matchFlowReducer = (flow: MatchFlowState, action: MatchFlowAction): MatchFlowState => {
+  switch (action.type) {
+    case 'openMenu':
+      return { phase: 'menu' };
+    case 'openEditor':
+      return { phase: 'editor' };
+    case 'openHistory':
+      return { phase: 'history' };
+    case 'openLobby':
+      return { phase: 'lobby' };
+    case 'startMatch':
+      return COUNTDOWN;
+    case 'countdownTick':
+      if (flow.phase !== 'countdown') return flow;
+      return flow.count > 1 ? { phase: 'countdown', count: flow.count - 1 } : { phase: 'inPlay' };
+    case 'pointScored':
+      if (flow.phase !== 'inPlay') return flow;
+      return { phase: 'pointScored', scorer: action.scorer, setOver: action.setOver };
+    case 'intermissionOver':
+      return flow.phase === 'pointScored' ? COUNTDOWN : flow;
+    case 'pause':
+      return isInMatch(flow) ? { phase: 'paused' } : flow;
+    case 'resume':
+      // Play picks up again after a fresh countdown, so nobody is caught out.
+      return flow.phase === 'paused' ? COUNTDOWN : flow;
+    case 'togglePause':
+      return matchFlowReducer(flow, { type: flow.phase === 'paused' ? 'resume' : 'pause' });
+    case 'matchEnd':
+      return isInMatch(flow) ? { phase: 'matchOver', winner: action.winner } : flow;
+    case 'sync':
+      return action.flow;
+  }
+};
+
+// The action that moves the flow on by itself after a delay: the countdown and the point
+// intermission. Null when the flow waits for a player or the simulation.
+export const flowTimer = (flow: MatchFlowState): { action: MatchFlowAction; delay: number } | null => {
+  if (flow.phase === 'countdown') return { action: { type: 'countdownTick' }, delay: COUNTDOWN_STEP_MS };
+  if (flow.phase === 'pointScored') return { action: { type: 'intermissionOver' }, delay: INTERMISSION_MS };
+  return null;
+};
+
+// The match-flow action a step calls for: the end of the match, a set or a point, in that order.
+export const flowActionFor = (events: readonly SimulationEvent[]): MatchFlowAction | null => {
+  const matchEnd = events.find(event => event.type === 'matchEnd');
+  if (matchEnd) return { type: 'matchEnd', winner: matchEnd.winner };
+  const setWon = events.find(event => event.type === 'setWon');
+  if (setWon) return { type: 'pointScored', scorer: setWon.winner, setOver: true };
+  const point = [...events].reverse().find(event => event.type === 'point');
+  if (point) return { type: 'pointScored', scorer: point.scorer, setOver: false };
+  return null;
+};
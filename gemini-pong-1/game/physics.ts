@@ -0,0 +1,86 @@
+import { MAX_BALL_SPEED, BUMPER_SPEED_BOOST } from '../constants';
+import { SweepHit, sweepCircleRect, sweepCircleSegment } from './collision';
+import { BallState, BlockState, Vector } from './types';
+
+// --- Shared Bounce Rules ---
+// Responses that both the simulation and the AI's trajectory prediction need to agree on.
+
+// Max bounce angle off a block (75 degrees)
+const MAX_BOUNCE_ANGLE = (5 * Math.PI) / 12;
+
+// A deflector never sends the ball off flatter than this share of its speed across the field, so
+// it cannot leave the ball bouncing between the side walls forever.
+const MIN_DEFLECTED_VERTICAL_SPEED = 0.35;
+
+// The two ends of a deflector's surface, corner to corner across its box.
+export const deflectorSurface = (block: BlockState): [Vector, Vector] =>
+  block.slope === 'falling'
+    ? [{ x: block.x, y: block.y }, { x: block.x + block.width, y: block.y + block.height }]
+    : [{ x: block.x, y: block.y + block.height }, { x: block.x + block.width, y: block.y }];
+
+// Sweeps the ball against a block's collision shape: its box, or the diagonal surface of a deflector.
+export const sweepBlock = (position: Vector, motion: Vector, radius: number, block: BlockState): SweepHit | null => {
+  if (block.type === 'deflector') {
+    const [start, end] = deflectorSurface(block);
+    return sweepCircleSegment(position, motion, radius, start, end);
+  }
+  return sweepCircleRect(position, motion, radius, block);
+};
+
+const clampUnit = (value: number) => Math.max(-1, Math.min(1, value));
+
+// Blocks send the ball off at an angle that depends on where it hit, keeping its speed.
+const angledBounce = (ball: BallState, block: BlockState, normal: Vector) => {
+  const blockCenterX = block.x + block.width / 2;
+  const blockCenterY = block.y + block.height / 2;
+
+  // A ball grazing a corner is centered beyond the face it hit; clamping keeps the bounce angle
+  // below 90 degrees so the ball is always sent away from the block.
+  if (normal.y !== 0) { // Vertical collision
+    const normalizedHitPointX = clampUnit((ball.x - blockCenterX) / (block.width / 2));
+    const bounceAngle = normalizedHitPointX * MAX_BOUNCE_ANGLE;
+
+    // The direction of the bounce is determined by which side was hit
+    ball.velocity.x = ball.speed * Math.sin(bounceAngle);
+    ball.velocity.y = ball.speed * Math.cos(bounceAngle) * normal.y;
+  } else { // Horizontal collision
+    const normalizedHitPointY = clampUnit((ball.y - blockCenterY) / (block.height / 2));
+    const bounceAngle = normalizedHitPointY * MAX_BOUNCE_ANGLE;
+
+    // The direction of the bounce is determined by which side was hit
+    ball.velocity.y = ball.speed * Math.sin(bounceAngle);
+    ball.velocity.x = ball.speed * Math.cos(bounceAngle) * normal.x;
+  }
+};
+
+// Mirror reflection about the surface normal, keeping the ball's speed.
+const reflect = (ball: BallState, normal: Vector) => {
+  const dot = ball.velocity.x * normal.x + ball.velocity.y * normal.y;
+  ball.velocity.x -= 2 * dot * normal.x;
+  ball.velocity.y -= 2 * dot * normal.y;
+
+  const minVertical = ball.speed * MIN_DEFLECTED_VERTICAL_SPEED;
+  if (Math.abs(ball.velocity.y) < minVertical) {
+    const steepened = {
+      x: (Math.sign(ball.velocity.x) || 1) * Math.sqrt(ball.speed ** 2 - minVertical ** 2),
+      y: minVertical * (Math.sign(ball.velocity.y) || Math.sign(normal.y) || 1),
+    };
+    // Steepen in whichever vertical direction still leads away from the surface.
+    if (steepened.x * normal.x + steepened.y * normal.y < 0) steepened.y *= -1;
+    if (steepened.x * normal.x + steepened.y * normal.y > 0) ball.velocity = steepened;
+  }
+};
+
+export const bounceOffBlock = (ball: BallState, block: BlockState, normal: Vector) => {
+  switch (block.type) {
+    case 'deflector':
+      reflect(ball, normal);
+      break;
+    case 'bumper':
+      ball.speed = Math.min(ball.speed + BUMPER_SPEED_BOOST, MAX_BALL_SPEED);
+      angledBounce(ball, block, normal);
+      break;
+    default:
+      angledBounce(ball, block, normal);
+  }
+};
@@ -0,0 +1,237 @@
+import { GAME_HEIGHT, GAME_WIDTH, MAX_PADDLE_WIDTH, MIN_PADDLE_WIDTH, STEPS_PER_SECOND } from '../constants';
+import { random } from './rng';
+import { splitBall } from './balls';
+import { BallState, Side, SimulationConfig, SimulationEvent, SimulationState, Vector } from './types';
+
+// --- Power-Ups ---
+// Destroyed blocks sometimes drop a capsule that drifts toward one end of the field. The paddle
+// that catches it gets a timed effect. Everything here runs inside the simulation step, so drops
+// and effects replay exactly.
+
+export type PowerUpKind = 'widePaddle' | 'shrinkOpponent' | 'slowBall' | 'shield' | 'sticky' | 'multiBall';
+
+type PowerUpInfo = {
+  name: string;
+  description: string;
+  // Short symbol shown on the capsule and in the HUD.
+  icon: string;
+  color: string;
+  // Seconds the effect lasts once collected; 0 for effects that happen once on pickup.
+  duration: number;
+};
+
+export const POWER_UPS: Record<PowerUpKind, PowerUpInfo> = {
+  widePaddle: { name: 'Wide Paddle', description: 'Your paddle grows by half.', icon: '↔', color: '#22C55E', duration: 12 },
+  shrinkOpponent: { name: 'Shrink', description: "Your opponent's paddle shrinks.", icon: '↯', color: '#F97316', duration: 10 },
+  slowBall: { name: 'Slow Ball', description: 'Every ball moves at 60% speed.', icon: '◔', color: '#38BDF8', duration: 8 },
+  shield: { name: 'Shield', description: 'A barrier behind your goal stops one point.', icon: '▬', color: '#A855F7', duration: 15 },
+  sticky: { name: 'Sticky Paddle', description: 'Your paddle catches the ball and relaunches it.', icon: '◎', color: '#FACC15', duration: 10 },
+  multiBall: { name: 'Multi-Ball', description: 'The ball nearest your paddle splits into three.', icon: '⁂', color: '#F43F5E', duration: 0 },
+};
+
+const POWER_UP_KINDS = Object.keys(POWER_UPS) as PowerUpKind[];
+
+// Chance that a destroyed block drops a capsule.
+const DROP_CHANCE = 0.4;
+// Capsule drift, in pixels per step.
+const CAPSULE_SPEED = 2;
+export const CAPSULE_WIDTH = 36;
+export const CAPSULE_HEIGHT = 16;
+
+const WIDE_PADDLE_FACTOR = 1.5;
+const SHRUNK_PADDLE_FACTOR = 0.6;
+export const SLOW_BALL_FACTOR = 0.6;
+// How long a sticky paddle holds the ball before relaunching it.
+const STICKY_HOLD_SECONDS = 0.75;
+// The shield sits this far in front of the goal line.
+export const SHIELD_INSET = 4;
+
+export type Capsule = {
+  id: number;
+  kind: PowerUpKind;
+  // Center of the capsule.
+  x: number;
+  y: number;
+  // Which paddle's end it drifts toward.
+  towards: Side;
+};
+
+export type ActiveEffect = {
+  kind: PowerUpKind;
+  // The side that collected it, not necessarily the side it acts on.
+  side: Side;
+  expiresAt: number;
+};
+
+// A ball caught by a sticky paddle rides along with it until it is relaunched.
+export type HeldBall = {
+  ballId: number;
+  side: Side;
+  // Ball center relative to the paddle's center.
+  offsetX: number;
+  releaseAt: number;
+  // Velocity to relaunch with: the bounce the paddle would have given it.
+  velocity: Vector;
+};
+
+export type PowerUpState = {
+  nextCapsuleId: number;
+  capsules: Capsule[];
+  active: ActiveEffect[];
+  heldBall: HeldBall | null;
+  // Who touched the ball last; capsules drift toward them as a reward for the break.
+  lastHitter: Side | null;
+};
+
+export const createPowerUpState = (): PowerUpState => ({
+  nextCapsuleId: 0,
+  capsules: [],
+  active: [],
+  heldBall: null,
+  lastHitter: null,
+});
+
+export const opponentOf = (side: Side): Side => (side === 'player' ? 'ai' : 'player');
+
+export const hasEffect = (powerUps: PowerUpState | null, kind: PowerUpKind, side?: Side) =>
+  !!powerUps?.active.some(effect => effect.kind === kind && (side === undefined || effect.side === side));
+
+// Rolls for a capsule where a block was destroyed.
+export const maybeDropCapsule = (state: SimulationState, x: number, y: number, events: SimulationEvent[]) => {
+  const { powerUps } = state;
+  if (!powerUps || random(state) >= DROP_CHANCE) return;
+  const kind = POWER_UP_KINDS[Math.floor(random(state) * POWER_UP_KINDS.length)];
+  const towards = powerUps.lastHitter ?? (random(state) < 0.5 ? 'player' : 'ai');
+  const capsule: Capsule = { id: powerUps.nextCapsuleId++, kind, x, y, towards };
+  powerUps.capsules.push(capsule);
+  events.push({ type: 'powerUpSpawned', capsuleId: capsule.id, kind, x, y });
+};
+
+// Paddle width for a side, after wide and shrink effects.
+export const paddleWidthFor = (powerUps: PowerUpState | null, side: Side, config: SimulationConfig) => {
+  let width = config.paddleWidth;
+  if (hasEffect(powerUps, 'widePaddle', side)) width *= WIDE_PADDLE_FACTOR;
+  if (hasEffect(powerUps, 'shrinkOpponent', opponentOf(side))) width *= SHRUNK_PADDLE_FACTOR;
+  return Math.max(MIN_PADDLE_WIDTH * SHRUNK_PADDLE_FACTOR, Math.min(MAX_PADDLE_WIDTH * WIDE_PADDLE_FACTOR, width));
+};
+
+const collect = (state: SimulationState, kind: PowerUpKind, side: Side, events: SimulationEvent[]) => {
+  const powerUps = state.powerUps!;
+  events.push({ type: 'powerUpCollected', kind, side });
+  if (kind === 'multiBall') {
+    const paddle = state.paddles[side];
+    const distance = (ball: BallState) => Math.abs(ball.y - (paddle.y + paddle.height / 2));
+    splitBall(state, state.balls.reduce((nearest, ball) => (distance(ball) < distance(nearest) ? ball : nearest)));
+    return;
+  }
+  const expiresAt = state.tick + Math.round(POWER_UPS[kind].duration * STEPS_PER_SECOND);
+  // Catching the same power-up again refreshes its timer.
+  const existing = powerUps.active.find(effect => effect.kind === kind && effect.side === side);
+  if (existing) {
+    existing.expiresAt = expiresAt;
+  } else {
+    powerUps.active.push({ kind, side, expiresAt });
+  }
+};
+
+/**
+ * Drifts capsules, hands them to the paddle that catches them, expires old effects and resizes
+ * the paddles to match. Call once per step, after the paddles have moved.
+ */
+export const updatePowerUps = (state: SimulationState, config: SimulationConfig, events: SimulationEvent[]) => {
+  const { powerUps } = state;
+  if (!powerUps) return;
+
+  powerUps.capsules = powerUps.capsules.filter(capsule => {
+    capsule.y += (capsule.towards === 'player' ? 1 : -1) * CAPSULE_SPEED;
+    const catcher = (['player', 'ai'] as const).find(side => {
+      const paddle = state.paddles[side];
+      return (
+        Math.abs(capsule.x - (paddle.x + paddle.width / 2)) < (paddle.width + CAPSULE_WIDTH) / 2 &&
+        Math.abs(capsule.y - (paddle.y + paddle.height / 2)) < (paddle.height + CAPSULE_HEIGHT) / 2
+      );
+    });
+    if (catcher) {
+      collect(state, capsule.kind, catcher, events);
+      return false;
+    }
+    return capsule.y > -CAPSULE_HEIGHT && capsule.y < GAME_HEIGHT + CAPSULE_HEIGHT;
+  });
+
+  powerUps.active = powerUps.active.filter(effect => {
+    if (state.tick < effect.expiresAt) return true;
+    events.push({ type: 'powerUpExpired', kind: effect.kind, side: effect.side });
+    return false;
+  });
+
+  // Resize around the paddle's center so it does not jump sideways.
+  (['player', 'ai'] as const).forEach(side => {
+    const paddle = state.paddles[side];
+    const width = paddleWidthFor(powerUps, side, config);
+    if (width === paddle.width) return;
+    const center = paddle.x + paddle.width / 2;
+    paddle.width = width;
+    paddle.x = Math.max(0, Math.min(GAME_WIDTH - width, center - width / 2));
+  });
+};
+
+// A sticky paddle takes the ball on a face hit, after the bounce has been worked out. It holds one
+// ball at a time.
+export const tryCatchBall = (state: SimulationState, ball: BallState, side: Side, events: SimulationEvent[]) => {
+  const { powerUps } = state;
+  if (!powerUps || powerUps.heldBall || !hasEffect(powerUps, 'sticky', side)) return false;
+  const paddle = state.paddles[side];
+  powerUps.heldBall = {
+    ballId: ball.id,
+    side,
+    offsetX: ball.x - (paddle.x + paddle.width / 2),
+    releaseAt: state.tick + Math.round(STICKY_HOLD_SECONDS * STEPS_PER_SECOND),
+    velocity: { ...ball.velocity },
+  };
+  events.push({ type: 'ballCaught', side, ballId: ball.id });
+  return true;
+};
+
+export const isHeld = (powerUps: PowerUpState | null, ball: BallState) => powerUps?.heldBall?.ballId === ball.id;
+
+/**
+ * Keeps a held ball on its paddle and relaunches it when its time is up. A ball is not moved in
+ * the steps it is held (see isHeld); it flies again the step it is released.
+ */
+export const updateHeldBall = (state: SimulationState, events: SimulationEvent[]) => {
+  const held = state.powerUps?.heldBall;
+  if (!held) return;
+  const ball = state.balls.find(candidate => candidate.id === held.ballId);
+  if (!ball) {
+    state.powerUps!.heldBall = null;
+    return;
+  }
+  const paddle = state.paddles[held.side];
+  // Keep the ball on the paddle even if the paddle shrank since the catch.
+  const reach = paddle.width / 2;
+  ball.x = paddle.x + reach + Math.max(-reach, Math.min(reach, held.offsetX));
+  if (state.tick < held.releaseAt) return;
+
+  ball.velocity = { ...held.velocity };
+  state.powerUps!.heldBall = null;
+  events.push({ type: 'ballReleased', side: held.side, ballId: ball.id });
+};
+
+// Uses up a shield on `side`, if it has one. Returns whether the point was saved.
+export const consumeShield = (state: SimulationState, ball: BallState, side: Side, events: SimulationEvent[]) => {
+  const { powerUps } = state;
+  if (!powerUps) return false;
+  const index = powerUps.active.findIndex(effect => effect.kind === 'shield' && effect.side === side);
+  if (index < 0) return false;
+  powerUps.active.splice(index, 1);
+  events.push({ type: 'shieldSaved', side, ballId: ball.id });
+  return true;
+};
+
+// Capsules in flight and a held ball do not carry over into the next point; timed effects do.
+export const clearPowerUpsForServe = (powerUps: PowerUpState | null) => {
+  if (!powerUps) return;
+  powerUps.capsules = [];
+  powerUps.heldBall = null;
+  powerUps.lastHitter = null;
+};
@@ -0,0 +1,124 @@
+import { GameMode } from '../types';
+import { SimulationConfig, SimulationInput } from './types';
+import { AI_CONTROLLERS } from './ai/controllers';
+import { parseLevel } from './levels';
+import { MAX_BALLS } from './balls';
+import { DEFAULT_RULES, readRules } from './rules';
+
+// --- Match Recording & Playback ---
+// The simulation is deterministic for a given seed, config and sequence of per-step inputs, so
+// that is all a recording needs to store to re-run a match exactly.
+
+// Version 1 recordings also stored variable frame deltas; the fixed-timestep simulation cannot play them.
+// Version 2 recordings predate levels and were always played on the classic layout, before the
+// clamped corner bounces off blocks (see angledBounce in physics.ts); they cannot be played.
+// Version 3 recordings predate multi-ball and served one ball at a time. Most also predate the
+// clamped corner bounces, so only those without blocks are sure to play out the same.
+export const REPLAY_VERSION = 4;
+
+export type MatchRecording = {
+  version: number;
+  recordedAt: string;
+  config: SimulationConfig;
+  // One entry per fixed simulation step.
+  frames: SimulationInput[];
+};
+
+export class MatchRecorder {
+  private readonly frames: SimulationInput[] = [];
+
+  constructor(private readonly config: SimulationConfig) {}
+
+  record(input: SimulationInput) {
+    this.frames.push({ ...input });
+  }
+
+  finish(): MatchRecording {
+    return {
+      version: REPLAY_VERSION,
+      recordedAt: new Date().toISOString(),
+      config: { ...this.config },
+      frames: [...this.frames],
+    };
+  }
+}
+
+export class ReplayPlayer {
+  private cursor = 0;
+
+  constructor(private readonly recording: MatchRecording) {}
+
+  get finished() {
+    return this.cursor >= this.recording.frames.length;
+  }
+
+  // Returns the input for the next step, or null once the recording is exhausted.
+  next(): SimulationInput | null {
+    if (this.finished) return null;
+    return this.recording.frames[this.cursor++];
+  }
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Parses a recording saved with `JSON.stringify`, throwing if it is not a replay this version can play.
+export const parseRecording = (json: string): MatchRecording => {
+  const data = JSON.parse(json);
+  if (!data || typeof data !== 'object') {
+    throw new Error('Replay file is not a JSON object.');
+  }
+  if (data.version !== REPLAY_VERSION && data.version !== 3) {
+    throw new Error(`Unsupported replay version: ${data.version}`);
+  }
+  const config = data.config;
+  if (data.version < REPLAY_VERSION && config && typeof config === 'object') {
+    // The multi-ball capsule joined the power-up draw, so older power-up matches play out differently.
+    if (config.powerUps === true) {
+      throw new Error('Replays of power-up matches from older versions cannot be played.');
+    }
+    if (config.level?.blocks?.length) {
+      throw new Error('Replays of matches with blocks from older versions cannot be played.');
+    }
+    config.ballCount = 1;
+    data.version = REPLAY_VERSION;
+  }
+  const configKeys: (keyof SimulationConfig)[] = ['seed', 'mode', 'initialBallSpeed', 'speedIncrease', 'paddleWidth', 'paddleHeight', 'ballCount'];
+  if (
+    !config ||
+    configKeys.some(key => !isFiniteNumber(config[key])) ||
+    !(config.mode in GameMode) ||
+    !Number.isInteger(config.ballCount) ||
+    config.ballCount < 1 ||
+    config.ballCount > MAX_BALLS
+  ) {
+    throw new Error('Replay file has an invalid match configuration.');
+  }
+  if (
+    !config.ai ||
+    !Object.hasOwn(AI_CONTROLLERS, config.ai.personality) ||
+    !isFiniteNumber(config.ai.difficulty) ||
+    typeof config.ai.adaptive !== 'boolean'
+  ) {
+    throw new Error('Replay file has an invalid AI opponent.');
+  }
+  // Recordings made before power-ups existed were played without them.
+  config.powerUps ??= false;
+  if (typeof config.powerUps !== 'boolean') {
+    throw new Error('Replay file has an invalid power-up setting.');
+  }
+  // Recordings made before match rules existed were played to the default rules.
+  try {
+    config.rules = readRules(config.rules ?? DEFAULT_RULES);
+  } catch {
+    throw new Error('Replay file has invalid match rules.');
+  }
+  try {
+    config.level = parseLevel(config.level);
+  } catch (e) {
+    throw new Error(`Replay file has an invalid level. ${e instanceof Error ? e.message : ''}`.trim());
+  }
+  if (!Array.isArray(data.frames) || data.frames.some((frame: SimulationInput) => !frame || typeof frame !== 'object')) {
+    throw new Error('Replay file has invalid frames.');
+  }
+  return data as MatchRecording;
+};
@@ -0,0 +1,18 @@
+// --- Seeded Random Source ---
+// Mulberry32: a tiny, fast 32-bit generator. Its whole state is a single number, which is kept
+// inside the simulation state so that snapshots and replays carry the random stream with them.
+
+export type RandomSource = {
+  rngState: number;
+};
+
+export const createSeed = () => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+// Returns a float in [0, 1) and advances the generator stored on `source`.
+export const random = (source: RandomSource): number => {
+  source.rngState = (source.rngState + 0x6D2B79F5) >>> 0;
+  let t = source.rngState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
@@ -0,0 +1,173 @@
+import { STEPS_PER_SECOND, WINNING_SCORE } from '../constants';
+import { Score } from '../types';
+import { Side, SimulationEvent, SimulationState } from './types';
+
+// --- Match Rules ---
+// How a match is won and who serves. The rules are part of the simulation config and are applied
+// inside the step, so a replay ends exactly where the match did.
+
+// 'loser': whoever conceded serves. 'winner': whoever scored serves. 'alternate': turns, every point.
+export type ServeRule = 'loser' | 'winner' | 'alternate';
+
+export type MatchRules = {
+  // Points needed to take a set.
+  targetScore: number;
+  // Past the target, a set is only won with a two-point lead.
+  winByTwo: boolean;
+  // Seconds per set, or null for no limit. When time runs out the leader takes the set; level
+  // scores go to sudden death, where the next point wins.
+  timeLimit: number | null;
+  // Best-of-N sets; 1 plays a single set.
+  sets: number;
+  serve: ServeRule;
+};
+
+export const DEFAULT_RULES: MatchRules = {
+  targetScore: WINNING_SCORE,
+  winByTwo: false,
+  timeLimit: null,
+  sets: 1,
+  serve: 'loser',
+};
+
+export const TARGET_SCORE_OPTIONS = [3, 5, 7, 11, 15, 21];
+export const SET_OPTIONS = [1, 3, 5, 7];
+// Seconds.
+export const TIME_LIMIT_OPTIONS = [60, 120, 180, 300];
+
+export const SERVE_RULES: Record<ServeRule, { name: string; description: string }> = {
+  loser: { name: 'Loser serves', description: 'The player who conceded serves the next point.' },
+  winner: { name: 'Winner serves', description: 'The player who scored keeps the serve.' },
+  alternate: { name: 'Alternate', description: 'The serve changes hands after every point.' },
+};
+
+export type MatchState = {
+  // Sets won so far.
+  sets: Score;
+  // Final score of every finished set, in order.
+  setScores: Score[];
+  // Tick the current set started on, for the time limit.
+  setStartTick: number;
+  // Time ran out with the scores level; the next point takes the set.
+  suddenDeath: boolean;
+  // Who served last.
+  server: Side;
+  winner: Side | null;
+};
+
+export const createMatchState = (server: Side): MatchState => ({
+  sets: { player: 0, ai: 0 },
+  setScores: [],
+  setStartTick: 0,
+  suddenDeath: false,
+  server,
+  winner: null,
+});
+
+const other = (side: Side): Side => (side === 'player' ? 'ai' : 'player');
+
+// Sets a side has to win to take the match.
+export const setsToWin = (rules: MatchRules) => Math.floor(rules.sets / 2) + 1;
+
+// The side that has taken the current set on points, if any.
+export const setWinnerOnPoints = (match: MatchState, score: Score, rules: MatchRules): Side | null => {
+  for (const side of ['player', 'ai'] as const) {
+    const lead = score[side] - score[other(side)];
+    if (match.suddenDeath && lead > 0) return side;
+    if (score[side] >= rules.targetScore && (!rules.winByTwo || lead >= 2)) return side;
+  }
+  return null;
+};
+
+// Seconds left in the current set, or null without a time limit.
+export const timeLeft = (state: SimulationState, rules: MatchRules): number | null => {
+  if (rules.timeLimit === null) return null;
+  const elapsed = (state.tick - state.match.setStartTick) / STEPS_PER_SECOND;
+  return Math.max(0, rules.timeLimit - elapsed);
+};
+
+/**
+ * Checks the clock once per step. Returns the side that wins the set because time ran out; with
+ * level scores it starts sudden death instead and returns null.
+ */
+export const checkTimeLimit = (state: SimulationState, rules: MatchRules, events: SimulationEvent[]): Side | null => {
+  const { match, score } = state;
+  if (match.suddenDeath || timeLeft(state, rules) !== 0) return null;
+  if (score.player === score.ai) {
+    match.suddenDeath = true;
+    events.push({ type: 'suddenDeath' });
+    return null;
+  }
+  return score.player > score.ai ? 'player' : 'ai';
+};
+
+// Records a finished set and starts the next one, or ends the match.
+export const finishSet = (state: SimulationState, rules: MatchRules, winner: Side, events: SimulationEvent[]) => {
+  const { match } = state;
+  const setScore = { ...state.score };
+  match.sets[winner] += 1;
+  match.setScores.push(setScore);
+  match.suddenDeath = false;
+  match.setStartTick = state.tick;
+  state.score = { player: 0, ai: 0 };
+  events.push({ type: 'setWon', winner, score: setScore });
+  if (match.sets[winner] >= setsToWin(rules)) {
+    match.winner = winner;
+    events.push({ type: 'matchEnd', winner });
+  }
+};
+
+// Picks who serves after `pointWinner` took a point (or a set), and records it.
+export const nextServer = (match: MatchState, rules: MatchRules, pointWinner: Side): Side => {
+  switch (rules.serve) {
+    case 'winner':
+      match.server = pointWinner;
+      break;
+    case 'alternate':
+      match.server = other(match.server);
+      break;
+    default:
+      match.server = other(pointWinner);
+  }
+  return match.server;
+};
+
+const formatMinutes = (seconds: number) => `${seconds / 60} min`;
+
+// A one-line summary such as "Best of 3 · first to 11 · win by two · 3 min sets · loser serves".
+export const describeRules = (rules: MatchRules) => {
+  const parts = [
+    rules.sets > 1 ? `Best of ${rules.sets}` : 'Single set',
+    `first to ${rules.targetScore}`,
+  ];
+  if (rules.winByTwo) parts.push('win by two');
+  if (rules.timeLimit !== null) parts.push(`${formatMinutes(rules.timeLimit)} ${rules.sets > 1 ? 'sets' : 'limit'}`);
+  parts.push(SERVE_RULES[rules.serve].name.toLowerCase());
+  return parts.join(' · ');
+};
+
+const isPositiveInteger = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+// Validates rules read from a file, throwing on anything the simulation could not play.
+export const readRules = (data: unknown): MatchRules => {
+  const rules = data as Partial<MatchRules> | null;
+  if (
+    !rules ||
+    typeof rules !== 'object' ||
+    !isPositiveInteger(rules.targetScore) ||
+    typeof rules.winByTwo !== 'boolean' ||
+    !(rules.timeLimit === null || isPositiveInteger(rules.timeLimit)) ||
+    !isPositiveInteger(rules.sets) ||
+    rules.sets % 2 === 0 ||
+    !(typeof rules.serve === 'string' && Object.hasOwn(SERVE_RULES, rules.serve))
+  ) {
+    throw new Error('Invalid match rules.');
+  }
+  return {
+    targetScore: rules.targetScore,
+    winByTwo: rules.winByTwo,
+    timeLimit: rules.timeLimit,
+    sets: rules.sets,
+    serve: rules.serve,
+  };
+};
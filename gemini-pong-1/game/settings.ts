@@ -0,0 +1,299 @@
+import {
+  DEFAULT_AI_DIFFICULTY,
+  DEFAULT_SPEED_INCREASE,
+  INITIAL_BALL_SPEED,
+  MAX_INITIAL_BALL_SPEED,
+  MAX_PADDLE_HEIGHT,
+  MAX_PADDLE_WIDTH,
+  MAX_SPEED_INCREASE,
+  MIN_INITIAL_BALL_SPEED,
+  MIN_PADDLE_HEIGHT,
+  MIN_PADDLE_WIDTH,
+  PADDLE_HEIGHT,
+  PADDLE_WIDTH,
+} from '../constants';
+import { GameMode } from '../types';
+import { BUNDLED_LEVELS, DEFAULT_LEVEL_ID } from '../levels';
+import { AI_CONTROLLERS } from './ai/controllers';
+import { AISettings } from './ai/types';
+import { MULTI_BALL_COUNT } from './balls';
+import { LevelDefinition } from './levels';
+import { SimulationConfig } from './types';
+import { DEFAULT_RULES, MatchRules, SERVE_RULES, SET_OPTIONS, TARGET_SCORE_OPTIONS, TIME_LIMIT_OPTIONS } from './rules';
+
+// --- Game Settings ---
+// Everything chosen on the Start card before a match. Settings are remembered between visits,
+// can be saved as named presets and travel in a link; anything read back is checked against the
+// same bounds the Start card offers.
+
+export type GameSettings = {
+  mode: GameMode;
+  ai: AISettings;
+  initialBallSpeed: number;
+  speedIncrease: number;
+  paddleWidth: number;
+  paddleHeight: number;
+  levelId: string;
+  powerUps: boolean;
+  multiBall: boolean;
+  rules: MatchRules;
+};
+
+export type SettingKey = keyof GameSettings;
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  mode: GameMode.VsAI,
+  ai: { personality: 'classic', difficulty: DEFAULT_AI_DIFFICULTY, adaptive: false },
+  initialBallSpeed: INITIAL_BALL_SPEED,
+  speedIncrease: DEFAULT_SPEED_INCREASE,
+  paddleWidth: PADDLE_WIDTH,
+  paddleHeight: PADDLE_HEIGHT,
+  levelId: DEFAULT_LEVEL_ID,
+  powerUps: false,
+  multiBall: false,
+  rules: DEFAULT_RULES,
+};
+
+// How each setting is named in messages.
+export const SETTING_LABELS: Record<SettingKey, string> = {
+  mode: 'mode',
+  ai: 'opponent',
+  initialBallSpeed: 'initial ball speed',
+  speedIncrease: 'speed increase',
+  paddleWidth: 'paddle width',
+  paddleHeight: 'paddle height',
+  levelId: 'level',
+  powerUps: 'power-ups',
+  multiBall: 'multi-ball',
+  rules: 'match rules',
+};
+
+// --- Presets ---
+// Built-in presets change how the game plays and leave the mode and the opponent alone.
+
+export type SettingsPreset = {
+  name: string;
+  description: string;
+  settings: Partial<GameSettings>;
+};
+
+export type PresetId = 'classic' | 'chaos' | 'tinyPaddles';
+
+export const SETTINGS_PRESETS: Record<PresetId, SettingsPreset> = {
+  classic: {
+    name: 'Classic',
+    description: 'The original game: one ball, no power-ups, first to five.',
+    settings: {
+      initialBallSpeed: INITIAL_BALL_SPEED,
+      speedIncrease: DEFAULT_SPEED_INCREASE,
+      paddleWidth: PADDLE_WIDTH,
+      paddleHeight: PADDLE_HEIGHT,
+      levelId: DEFAULT_LEVEL_ID,
+      powerUps: false,
+      multiBall: false,
+      rules: DEFAULT_RULES,
+    },
+  },
+  chaos: {
+    name: 'Chaos',
+    description: 'Fast balls, three at a time, with power-ups on the busiest level.',
+    settings: {
+      initialBallSpeed: 7,
+      speedIncrease: 0.5,
+      paddleWidth: PADDLE_WIDTH,
+      paddleHeight: PADDLE_HEIGHT,
+      levelId: 'funhouse',
+      powerUps: true,
+      multiBall: true,
+      rules: { ...DEFAULT_RULES, targetScore: 11 },
+    },
+  },
+  tinyPaddles: {
+    name: 'Tiny paddles',
+    description: 'The smallest paddles allowed and a gentle ball.',
+    settings: {
+      initialBallSpeed: 4,
+      speedIncrease: DEFAULT_SPEED_INCREASE,
+      paddleWidth: MIN_PADDLE_WIDTH,
+      paddleHeight: MIN_PADDLE_HEIGHT,
+      powerUps: false,
+      multiBall: false,
+    },
+  },
+};
+
+export const applyPreset = (settings: GameSettings, preset: Partial<GameSettings>): GameSettings =>
+  structuredClone({ ...settings, ...preset });
+
+// The simulation config for one match under these settings. The level is passed in because test
+// plays use the editor's draft rather than the selected layout.
+export const createMatchConfig = (
+  settings: GameSettings,
+  level: LevelDefinition,
+  seed: number,
+  mode = settings.mode,
+): SimulationConfig => ({
+  seed,
+  mode,
+  ai: { ...settings.ai },
+  initialBallSpeed: settings.initialBallSpeed,
+  speedIncrease: settings.speedIncrease,
+  paddleWidth: settings.paddleWidth,
+  paddleHeight: settings.paddleHeight,
+  ballCount: settings.multiBall ? MULTI_BALL_COUNT : 1,
+  level,
+  powerUps: settings.powerUps,
+  rules: settings.rules,
+});
+
+// --- Validation ---
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const inRange = (min: number, max: number) => (value: unknown) => isFiniteNumber(value) && value >= min && value <= max;
+
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+
+const isAISettings = (value: unknown) => {
+  const ai = value as Partial<AISettings> | null;
+  return (
+    !!ai &&
+    typeof ai === 'object' &&
+    typeof ai.personality === 'string' &&
+    Object.hasOwn(AI_CONTROLLERS, ai.personality) &&
+    inRange(0, 1)(ai.difficulty) &&
+    isBoolean(ai.adaptive)
+  );
+};
+
+// Rules must be ones the rules editor can show, so only its options are accepted.
+const isOfferedRules = (value: unknown) => {
+  const rules = value as Partial<MatchRules> | null;
+  return (
+    !!rules &&
+    typeof rules === 'object' &&
+    TARGET_SCORE_OPTIONS.includes(rules.targetScore as number) &&
+    isBoolean(rules.winByTwo) &&
+    (rules.timeLimit === null || TIME_LIMIT_OPTIONS.includes(rules.timeLimit as number)) &&
+    SET_OPTIONS.includes(rules.sets as number) &&
+    typeof rules.serve === 'string' &&
+    Object.hasOwn(SERVE_RULES, rules.serve)
+  );
+};
+
+const SETTING_CHECKS: Record<SettingKey, (value: unknown) => boolean> = {
+  mode: value => value === GameMode.VsAI || value === GameMode.LocalVersus,
+  ai: isAISettings,
+  initialBallSpeed: inRange(MIN_INITIAL_BALL_SPEED, MAX_INITIAL_BALL_SPEED),
+  speedIncrease: inRange(0, MAX_SPEED_INCREASE),
+  paddleWidth: inRange(MIN_PADDLE_WIDTH, MAX_PADDLE_WIDTH),
+  paddleHeight: inRange(MIN_PADDLE_HEIGHT, MAX_PADDLE_HEIGHT),
+  levelId: value => BUNDLED_LEVELS.some(entry => entry.id === value && entry.level),
+  powerUps: isBoolean,
+  multiBall: isBoolean,
+  rules: isOfferedRules,
+};
+
+export type SettingsReadResult = {
+  settings: GameSettings;
+  // Settings that were present but invalid or out of bounds, and were left at their fallback.
+  rejected: SettingKey[];
+};
+
+/**
+ * Reads settings from storage or a link, one setting at a time: missing settings and ones that
+ * fail their check keep the value from `fallback`, so one bad value does not discard the rest.
+ */
+export const readSettings = (data: unknown, fallback: GameSettings = DEFAULT_SETTINGS): SettingsReadResult => {
+  const settings = structuredClone(fallback);
+  const rejected: SettingKey[] = [];
+  if (!data || typeof data !== 'object') return { settings, rejected };
+  const values = data as Partial<Record<SettingKey, unknown>>;
+  (Object.keys(SETTING_CHECKS) as SettingKey[]).forEach(key => {
+    if (values[key] === undefined) return;
+    if (SETTING_CHECKS[key](values[key])) {
+      Object.assign(settings, { [key]: structuredClone(values[key]) });
+    } else {
+      rejected.push(key);
+    }
+  });
+  return { settings, rejected };
+};
+
+// --- Links ---
+// Settings travel as readable query parameters, e.g. `?mode=ai&opponent=classic&speed=5&…`.
+
+const MODE_PARAMS: Record<string, GameMode> = {
+  ai: GameMode.VsAI,
+  local: GameMode.LocalVersus,
+};
+
+const SETTING_PARAMS = [
+  'mode', 'opponent', 'difficulty', 'adaptive', 'speed', 'increase', 'width', 'height', 'level',
+  'powerUps', 'multiBall', 'points', 'winByTwo', 'time', 'sets', 'serve',
+] as const;
+
+const flag = (value: boolean) => (value ? '1' : '0');
+
+export const settingsToParams = (settings: GameSettings): URLSearchParams => new URLSearchParams({
+  mode: settings.mode === GameMode.LocalVersus ? 'local' : 'ai',
+  opponent: settings.ai.personality,
+  difficulty: String(settings.ai.difficulty),
+  adaptive: flag(settings.ai.adaptive),
+  speed: String(settings.initialBallSpeed),
+  increase: String(settings.speedIncrease),
+  width: String(settings.paddleWidth),
+  height: String(settings.paddleHeight),
+  level: settings.levelId,
+  powerUps: flag(settings.powerUps),
+  multiBall: flag(settings.multiBall),
+  points: String(settings.rules.targetScore),
+  winByTwo: flag(settings.rules.winByTwo),
+  time: settings.rules.timeLimit === null ? 'none' : String(settings.rules.timeLimit),
+  sets: String(settings.rules.sets),
+  serve: settings.rules.serve,
+});
+
+export const hasSettingsParams = (params: URLSearchParams) => SETTING_PARAMS.some(name => params.has(name));
+
+/**
+ * Reads settings from a link's query parameters on top of `fallback`. Parameters that do not
+ * parse are passed on as they are, so the setting they belong to is rejected rather than guessed.
+ */
+export const settingsFromParams = (params: URLSearchParams, fallback: GameSettings): SettingsReadResult => {
+  const text = (name: string) => params.get(name) ?? undefined;
+  const number = (name: string) => {
+    const value = params.get(name);
+    if (value === null) return undefined;
+    return value.trim() === '' ? value : Number(value);
+  };
+  const bool = (name: string) => {
+    const value = params.get(name);
+    return value === '1' ? true : value === '0' ? false : value ?? undefined;
+  };
+  const mode = text('mode');
+  const time = text('time');
+  const aiParams = { personality: text('opponent'), difficulty: number('difficulty'), adaptive: bool('adaptive') };
+  const ruleParams = { targetScore: number('points'), winByTwo: bool('winByTwo'), sets: number('sets'), serve: text('serve') };
+  const defined = <T extends object>(values: T) =>
+    Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+
+  const values: Partial<Record<SettingKey, unknown>> = {
+    mode: mode === undefined ? undefined : MODE_PARAMS[mode] ?? mode,
+    initialBallSpeed: number('speed'),
+    speedIncrease: number('increase'),
+    paddleWidth: number('width'),
+    paddleHeight: number('height'),
+    levelId: text('level'),
+    powerUps: bool('powerUps'),
+    multiBall: bool('multiBall'),
+  };
+  if (Object.values(aiParams).some(value => value !== undefined)) {
+    values.ai = { ...fallback.ai, ...defined(aiParams) };
+  }
+  if (time !== undefined || Object.values(ruleParams).some(value => value !== undefined)) {
+    const timeLimit = time === undefined ? fallback.rules.timeLimit : time === 'none' ? null : Number(time);
+    values.rules = { ...fallback.rules, ...defined(ruleParams), timeLimit };
+  }
+  return readSettings(values, fallback);
+};
@@ -0,0 +1,130 @@
+import { STEPS_PER_SECOND } from '../constants';
+import { Score } from '../types';
+import { Side, SimulationEvent, SimulationState } from './types';
+
+// --- Match Statistics ---
+// Built from the simulation's states and events as the match plays, so a replay produces the
+// same numbers as the match it recorded.
+
+// How the ball got past the paddle: straight from the opponent, or after bouncing off a block.
+export type PointRoute = 'direct' | 'block';
+
+export type PointRecord = {
+  tick: number;
+  // 1-based set the point was played in.
+  set: number;
+  scorer: Side;
+  // Set score once the point was added.
+  score: Score;
+  route: PointRoute;
+  // Paddle hits the scoring ball took since it was served.
+  rallyHits: number;
+};
+
+export type MatchStats = {
+  // Simulation time played, excluding countdowns and pauses.
+  durationSeconds: number;
+  rallies: number;
+  // Most paddle hits in a single rally.
+  longestRally: number;
+  averageRally: number;
+  // Ball speeds in pixels per second.
+  averageSpeed: number;
+  topSpeed: number;
+  paddleHits: Score;
+  // Credited to the side that last touched the ball; a ball nobody has hit yet belongs to its server.
+  blocksBroken: Score;
+  directPoints: Score;
+  blockPoints: Score;
+  timeline: PointRecord[];
+};
+
+type BallRecord = {
+  lastHitter: Side;
+  hits: number;
+  // Bounced off a block since the last paddle hit.
+  deflected: boolean;
+};
+
+const emptyScore = (): Score => ({ player: 0, ai: 0 });
+
+export class MatchStatsTracker {
+  private readonly balls = new Map<number, BallRecord>();
+  private readonly paddleHits = emptyScore();
+  private readonly blocksBroken = emptyScore();
+  private readonly directPoints = emptyScore();
+  private readonly blockPoints = emptyScore();
+  private readonly timeline: PointRecord[] = [];
+  private rallyHitsTotal = 0;
+  private speedTotal = 0;
+  private speedSamples = 0;
+  private topSpeed = 0;
+  private lastTick = 0;
+
+  // Call with every state the simulation produces, and the events of the step that produced it.
+  record(state: Readonly<SimulationState>, events: readonly SimulationEvent[]) {
+    this.lastTick = state.tick;
+
+    // Balls added by a multi-ball pickup belong to the collector; fresh serves to the server.
+    const collector = events.find(event => event.type === 'powerUpCollected' && event.kind === 'multiBall');
+    const owner = collector?.type === 'powerUpCollected' ? collector.side : state.match.server;
+    state.balls.forEach(ball => {
+      if (!this.balls.has(ball.id)) this.balls.set(ball.id, { lastHitter: owner, hits: 0, deflected: false });
+      const speed = Math.hypot(ball.velocity.x, ball.velocity.y) * STEPS_PER_SECOND;
+      this.speedTotal += speed;
+      this.speedSamples += 1;
+      this.topSpeed = Math.max(this.topSpeed, speed);
+    });
+
+    const setWon = events.find(event => event.type === 'setWon');
+    events.forEach(event => {
+      const ball = 'ballId' in event ? this.balls.get(event.ballId) : undefined;
+      switch (event.type) {
+        case 'paddleHit':
+          this.paddleHits[event.side] += 1;
+          if (ball) Object.assign(ball, { lastHitter: event.side, hits: ball.hits + 1, deflected: false });
+          break;
+        case 'blockHit':
+          if (ball) ball.deflected = true;
+          break;
+        case 'blockDestroyed':
+          if (ball) this.blocksBroken[ball.lastHitter] += 1;
+          break;
+        case 'point': {
+          const route: PointRoute = ball?.deflected ? 'block' : 'direct';
+          (route === 'block' ? this.blockPoints : this.directPoints)[event.scorer] += 1;
+          const rallyHits = ball?.hits ?? 0;
+          this.rallyHitsTotal += rallyHits;
+          // A point that ends a set is filed under that set, with the set's final score.
+          this.timeline.push({
+            tick: state.tick,
+            set: state.match.setScores.length + (setWon ? 0 : 1),
+            scorer: event.scorer,
+            score: setWon?.type === 'setWon' ? { ...setWon.score } : { ...state.score },
+            route,
+            rallyHits,
+          });
+          this.balls.delete(event.ballId);
+          break;
+        }
+      }
+    });
+  }
+
+  finish(): MatchStats {
+    const rallies = this.timeline.length;
+    return {
+      durationSeconds: this.lastTick / STEPS_PER_SECOND,
+      rallies,
+      longestRally: Math.max(0, ...this.timeline.map(point => point.rallyHits)),
+      averageRally: rallies > 0 ? this.rallyHitsTotal / rallies : 0,
+      averageSpeed: this.speedSamples > 0 ? this.speedTotal / this.speedSamples : 0,
+      topSpeed: this.topSpeed,
+      paddleHits: { ...this.paddleHits },
+      blocksBroken: { ...this.blocksBroken },
+      directPoints: { ...this.directPoints },
+      blockPoints: { ...this.blockPoints },
+      timeline: this.timeline.map(point => ({ ...point, score: { ...point.score } })),
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import { GameMode, Score } from '../types';
+import { AISettings } from './ai/types';
+import { AdaptiveDifficultyState } from './ai/adaptive';
+import { BlockType, DeflectorSlope, LevelDefinition } from './levels';
+import { PowerUpKind, PowerUpState } from './powerups';
+import { MatchRules, MatchState } from './rules';
+
+// The two ends of the field. 'player' is the bottom paddle, 'ai' the top one.
+export type Side = keyof Score;
+
+export type Vector = {
+  x: number;
+  y: number;
+};
+
+export type BallState = {
+  // Stable for the ball's whole time in play.
+  id: number;
+  x: number;
+  y: number;
+  velocity: Vector;
+  speed: number;
+};
+
+// Paddles and blocks are stored by their top-left corner, matching the Pixi objects that render them.
+export type PaddleState = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type BlockState = {
+  id: number;
+  type: BlockType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  health: number;
+  maxHealth: number;
+  color: string;
+  // Deflectors only.
+  slope?: DeflectorSlope;
+  visible: boolean;
+  // Tick at which a destroyed regenerating block grows back, or null.
+  regrowAt: number | null;
+};
+
+export type SimulationState = {
+  tick: number;
+  // Internal state of the seeded random generator, see rng.ts.
+  rngState: number;
+  // Balls in play. Never empty while the match is running: a new serve follows as soon as the last
+  // one scores.
+  balls: BallState[];
+  nextBallId: number;
+  paddles: Record<Side, PaddleState>;
+  blocks: BlockState[];
+  // Points in the current set.
+  score: Score;
+  match: MatchState;
+  // The AI's current difficulty: fixed from the config, unless adaptive difficulty is tuning it.
+  aiDifficulty: number;
+  adaptive: AdaptiveDifficultyState | null;
+  // Capsules and active effects; null when power-ups are switched off.
+  powerUps: PowerUpState | null;
+};
+
+export type SimulationConfig = {
+  // Seed for every random decision in the match (serve angles, AI aiming error).
+  seed: number;
+  // Who drives the top paddle: the built-in AI, or a second human through SimulationInput.aiX.
+  mode: GameMode;
+  // The built-in opponent; ignored in two-player mode.
+  ai: AISettings;
+  initialBallSpeed: number;
+  speedIncrease: number;
+  paddleWidth: number;
+  paddleHeight: number;
+  // Balls put in play by each serve; more than one makes a multi-ball match.
+  ballCount: number;
+  // Block layout for the match, already validated by parseLevel.
+  level: LevelDefinition;
+  // Whether destroyed blocks can drop power-up capsules.
+  powerUps: boolean;
+  rules: MatchRules;
+};
+
+export type SimulationInput = {
+  // Desired center X of the player paddle; omitted when the pointer has not moved.
+  playerX?: number;
+  // Desired center X of the top paddle in two-player mode.
+  aiX?: number;
+};
+
+export type SimulationEvent =
+  | { type: 'serve'; server: Side; direction: number }
+  | { type: 'wallBounce'; ballId: number }
+  | { type: 'paddleHit'; side: Side; ballId: number }
+  | { type: 'blockHit'; blockId: number; ballId: number }
+  | { type: 'blockDestroyed'; blockId: number; ballId: number; x: number; y: number }
+  | { type: 'blockRegenerated'; blockId: number }
+  | { type: 'point'; scorer: Side; ballId: number }
+  | { type: 'suddenDeath' }
+  | { type: 'setWon'; winner: Side; score: Score }
+  | { type: 'matchEnd'; winner: Side }
+  | { type: 'difficultyChange'; difficulty: number }
+  | { type: 'powerUpSpawned'; capsuleId: number; kind: PowerUpKind; x: number; y: number }
+  | { type: 'powerUpCollected'; kind: PowerUpKind; side: Side }
+  | { type: 'powerUpExpired'; kind: PowerUpKind; side: Side }
+  | { type: 'ballCaught'; side: Side; ballId: number }
+  | { type: 'ballReleased'; side: Side; ballId: number }
+  | { type: 'shieldSaved'; side: Side; ballId: number };
+
+export type StepResult = {
+  state: SimulationState;
+  events: SimulationEvent[];
+};
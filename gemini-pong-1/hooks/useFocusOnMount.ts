@@ -0,0 +1,17 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Moves keyboard focus to the returned ref's element when it mounts, so keyboard and screen-reader
+ * users start in a card or overlay that just opened instead of on whatever was focused before. The
+ * element needs to be focusable; give containers `tabIndex={-1}`.
+ */
+export const useFocusOnMount = <T extends HTMLElement>(enabled = true) => {
+  const ref = useRef<T>(null);
+
+  useEffect(() => {
+    if (enabled) ref.current?.focus({ preventScroll: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return ref;
+};
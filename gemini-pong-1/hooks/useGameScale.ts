@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { GAME_WIDTH, GAME_HEIGHT } from '../constants';
+
+// Space kept free around the stage for the page padding and the footer line.
+const HORIZONTAL_MARGIN = 32;
+const VERTICAL_MARGIN = 80;
+const MAX_SCALE = 2;
+
+const measureScale = (verticalMargin: number) => {
+  const viewport = window.visualViewport;
+  const width = (viewport?.width ?? window.innerWidth) - HORIZONTAL_MARGIN;
+  const height = (viewport?.height ?? window.innerHeight) - verticalMargin;
+  return Math.max(0.1, Math.min(width / GAME_WIDTH, height / GAME_HEIGHT, MAX_SCALE));
+};
+
+/**
+ * How much the logical GAME_WIDTH x GAME_HEIGHT stage must be scaled to fit the viewport. Updates on
+ * resize and orientation changes, in landscape and portrait alike. Screens with extra controls above
+ * or below the stage pass the height those controls need as `verticalMargin`.
+ */
+export const useGameScale = (verticalMargin = VERTICAL_MARGIN) => {
+  const [scale, setScale] = useState(() => measureScale(verticalMargin));
+
+  useEffect(() => {
+    const update = () => setScale(measureScale(verticalMargin));
+    update();
+    window.addEventListener('resize', update);
+    window.addEventListener('orientationchange', update);
+    window.visualViewport?.addEventListener('resize', update);
+    return () => {
+      window.removeEventListener('resize', update);
+      window.removeEventListener('orientationchange', update);
+      window.visualViewport?.removeEventListener('resize', update);
+    };
+  }, [verticalMargin]);
+
+  return scale;
+};
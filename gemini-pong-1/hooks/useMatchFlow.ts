@@ -0,0 +1,17 @@
+import { useEffect, useReducer } from 'react';
+import { INITIAL_MATCH_FLOW, flowTimer, matchFlowReducer } from '../game/matchFlow';
+
+// The flow reducer, with the countdown and the point intermission advancing on timers. Online
+// matches turn the timers off: the match server runs them and sends the result.
+export const useMatchFlow = (runTimers = true) => {
+  const [flow, dispatch] = useReducer(matchFlowReducer, INITIAL_MATCH_FLOW);
+
+  useEffect(() => {
+    const timer = runTimers ? flowTimer(flow) : null;
+    if (!timer) return;
+    const handle = window.setTimeout(() => dispatch(timer.action), timer.delay);
+    return () => window.clearTimeout(handle);
+  }, [flow, runTimers]);
+
+  return [flow, dispatch] as const;
+};
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { MotionPreference } from '../display/settings';
+
+const QUERY = '(prefers-reduced-motion: reduce)';
+
+/**
+ * Whether motion should be reduced: the player's choice, or the operating system's setting while
+ * the choice is 'system'. Follows the system setting as it changes.
+ */
+export const useReducedMotion = (preference: MotionPreference) => {
+  const [systemPrefersReduced, setSystemPrefersReduced] = useState(() => window.matchMedia(QUERY).matches);
+
+  useEffect(() => {
+    const media = window.matchMedia(QUERY);
+    const update = () => setSystemPrefersReduced(media.matches);
+    update();
+    media.addEventListener('change', update);
+    return () => media.removeEventListener('change', update);
+  }, []);
+
+  return preference === 'system' ? systemPrefersReduced : preference === 'reduced';
+};
@@ -0,0 +1,190 @@
+import {
+  KEYBOARD_PADDLE_SPEED,
+  KEYBOARD_PADDLE_ACCELERATION,
+  KEYBOARD_PADDLE_DECELERATION,
+  GAMEPAD_DEADZONE,
+} from '../constants';
+import { DEFAULT_BINDINGS, InputAction, InputBindings, findActionForKey } from './bindings';
+
+// --- Input Layer ---
+// Maps mouse, keyboard and gamepads onto a common "paddle intent" (where a paddle's center should
+// be next step) plus discrete actions such as pause. The game asks for intents once per
+// simulation step; the app subscribes to actions.
+
+// Slot 0 is the bottom paddle, slot 1 the top paddle in two-player mode.
+export type PlayerSlot = 0 | 1;
+
+// Standard Gamepad mapping: https://w3c.github.io/gamepad/#remapping
+const GAMEPAD_START_BUTTON = 9;
+const GAMEPAD_DPAD_LEFT = 14;
+const GAMEPAD_DPAD_RIGHT = 15;
+
+type ActionListener = () => void;
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT');
+
+export class InputManager {
+  private bindings: InputBindings = DEFAULT_BINDINGS;
+  private readonly heldKeys = new Set<string>();
+  private readonly listeners = new Map<InputAction, Set<ActionListener>>();
+  private readonly pointerX: [number | undefined, number | undefined] = [undefined, undefined];
+  private readonly velocities: [number, number] = [0, 0];
+  private gamepads: Gamepad[] = [];
+  private startWasPressed: boolean[] = [];
+  private pollHandle: number | null = null;
+
+  // While one person plays alone, every key binding and gamepad drives the bottom paddle.
+  combineControls = true;
+
+  start() {
+    if (this.pollHandle !== null) return;
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    window.addEventListener('blur', this.handleBlur);
+    // Gamepads have no events for buttons or sticks, so they are polled every animation frame.
+    const poll = () => {
+      this.pollGamepads();
+      this.pollHandle = requestAnimationFrame(poll);
+    };
+    this.pollHandle = requestAnimationFrame(poll);
+  }
+
+  stop() {
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+    window.removeEventListener('blur', this.handleBlur);
+    if (this.pollHandle !== null) {
+      cancelAnimationFrame(this.pollHandle);
+      this.pollHandle = null;
+    }
+    this.handleBlur();
+  }
+
+  setBindings(bindings: InputBindings) {
+    this.bindings = bindings;
+    this.heldKeys.clear();
+  }
+
+  // Subscribes to presses of a discrete action. Returns an unsubscribe function.
+  onAction(action: InputAction, listener: ActionListener) {
+    if (!this.listeners.has(action)) this.listeners.set(action, new Set());
+    this.listeners.get(action)!.add(listener);
+    return () => {
+      this.listeners.get(action)?.delete(listener);
+    };
+  }
+
+  // Latest pointer (mouse or touch) position over the stage, in game coordinates.
+  setPointerX(x: number, slot: PlayerSlot = 0) {
+    this.pointerX[slot] = x;
+  }
+
+  // Fires an action from an on-screen control, exactly as if its key had been pressed.
+  triggerAction(action: InputAction) {
+    this.emit(action);
+  }
+
+  // Clears held movement, e.g. when a new match starts.
+  reset() {
+    this.pointerX[0] = undefined;
+    this.pointerX[1] = undefined;
+    this.velocities[0] = 0;
+    this.velocities[1] = 0;
+  }
+
+  /**
+   * Returns where the slot's paddle center should move this step, or undefined to leave it where
+   * it is. Pointers place the paddle directly; keys and sticks move it relative to `currentCenterX`
+   * with a velocity, so call this exactly once per simulation step.
+   */
+  paddleIntent(slot: PlayerSlot, currentCenterX: number): number | undefined {
+    const pointerX = this.pointerX[slot];
+    if (pointerX !== undefined) {
+      this.pointerX[slot] = undefined;
+      this.velocities[slot] = 0;
+      return pointerX;
+    }
+
+    const stick = this.stickAxis(slot);
+    const direction = this.digitalDirection(slot);
+    let velocity = this.velocities[slot];
+
+    if (stick !== 0) {
+      // Analog sticks map directly to speed.
+      velocity = stick * KEYBOARD_PADDLE_SPEED;
+    } else if (direction !== 0) {
+      // Keys accelerate up to full speed, and turn around immediately.
+      if (Math.sign(velocity) !== direction) velocity = 0;
+      velocity = Math.max(-KEYBOARD_PADDLE_SPEED, Math.min(KEYBOARD_PADDLE_SPEED, velocity + direction * KEYBOARD_PADDLE_ACCELERATION));
+    } else {
+      const slowed = Math.max(0, Math.abs(velocity) - KEYBOARD_PADDLE_DECELERATION);
+      velocity = Math.sign(velocity) * slowed;
+    }
+
+    this.velocities[slot] = velocity;
+    return velocity === 0 ? undefined : currentCenterX + velocity;
+  }
+
+  private emit(action: InputAction) {
+    this.listeners.get(action)?.forEach(listener => listener());
+  }
+
+  private slotGamepads(slot: PlayerSlot) {
+    if (this.combineControls) return slot === 0 ? this.gamepads : [];
+    return this.gamepads[slot] ? [this.gamepads[slot]] : [];
+  }
+
+  private stickAxis(slot: PlayerSlot) {
+    let strongest = 0;
+    this.slotGamepads(slot).forEach(pad => {
+      const axis = pad.axes[0] ?? 0;
+      if (Math.abs(axis) > GAMEPAD_DEADZONE && Math.abs(axis) > Math.abs(strongest)) strongest = axis;
+    });
+    return strongest;
+  }
+
+  private digitalDirection(slot: PlayerSlot) {
+    const actions: [InputAction, InputAction][] = slot === 0 ? [['p1Left', 'p1Right']] : [['p2Left', 'p2Right']];
+    if (slot === 0 && this.combineControls) actions.push(['p2Left', 'p2Right']);
+
+    let left = false;
+    let right = false;
+    actions.forEach(([leftAction, rightAction]) => {
+      left ||= this.bindings[leftAction].some(code => this.heldKeys.has(code));
+      right ||= this.bindings[rightAction].some(code => this.heldKeys.has(code));
+    });
+    this.slotGamepads(slot).forEach(pad => {
+      left ||= !!pad.buttons[GAMEPAD_DPAD_LEFT]?.pressed;
+      right ||= !!pad.buttons[GAMEPAD_DPAD_RIGHT]?.pressed;
+    });
+    return (right ? 1 : 0) - (left ? 1 : 0);
+  }
+
+  private pollGamepads() {
+    if (!navigator.getGamepads) return;
+    this.gamepads = navigator.getGamepads().filter((pad): pad is Gamepad => !!pad && pad.connected);
+    this.gamepads.forEach((pad, index) => {
+      const pressed = !!pad.buttons[GAMEPAD_START_BUTTON]?.pressed;
+      if (pressed && !this.startWasPressed[index]) this.emit('pause');
+      this.startWasPressed[index] = pressed;
+    });
+  }
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (isTextField(event.target)) return;
+    const action = findActionForKey(this.bindings, event.code);
+    if (!action) return;
+    event.preventDefault(); // Keep arrow keys from scrolling the page
+    this.heldKeys.add(event.code);
+    if (!event.repeat) this.emit(action);
+  };
+
+  private handleKeyUp = (event: KeyboardEvent) => {
+    this.heldKeys.delete(event.code);
+  };
+
+  private handleBlur = () => {
+    this.heldKeys.clear();
+  };
+}
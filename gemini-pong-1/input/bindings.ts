@@ -0,0 +1,42 @@
+// --- Input Bindings ---
+// Keyboard actions are bound to `KeyboardEvent.code` values, so layouts don't change the positions.
+
+export type InputAction = 'p1Left' | 'p1Right' | 'p2Left' | 'p2Right' | 'pause' | 'mute' | 'frameStats';
+
+export type InputBindings = Record<InputAction, string[]>;
+
+export const DEFAULT_BINDINGS: InputBindings = {
+  p1Left: ['ArrowLeft'],
+  p1Right: ['ArrowRight'],
+  p2Left: ['KeyA'],
+  p2Right: ['KeyD'],
+  pause: ['Escape', 'KeyP'],
+  mute: ['KeyM'],
+  frameStats: ['F3'],
+};
+
+export const INPUT_ACTION_LABELS: Record<InputAction, string> = {
+  p1Left: 'Bottom paddle left',
+  p1Right: 'Bottom paddle right',
+  p2Left: 'Top paddle left',
+  p2Right: 'Top paddle right',
+  pause: 'Pause',
+  mute: 'Mute sound',
+  frameStats: 'Show frame times',
+};
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+  Space: 'Space',
+};
+
+// Human-readable name for a key code, e.g. 'KeyA' -> 'A', 'Digit1' -> '1'.
+export const formatKeyCode = (code: string) =>
+  KEY_NAMES[code] ?? code.replace(/^Key/, '').replace(/^Digit/, '').replace(/^Numpad/, 'Num ');
+
+export const findActionForKey = (bindings: InputBindings, code: string): InputAction | undefined =>
+  (Object.keys(bindings) as InputAction[]).find(action => bindings[action].includes(code));
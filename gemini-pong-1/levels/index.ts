@@ -0,0 +1,34 @@
+import { LevelDefinition, parseLevel } from '../game/levels';
+import classic from './classic.json';
+import openCourt from './open-court.json';
+import fortress from './fortress.json';
+import pillars from './pillars.json';
+import funhouse from './funhouse.json';
+
+// --- Bundled Levels ---
+// Every layout shipped with the game. They are validated once when the app loads; a broken file
+// stays in the list with its error so it can be reported instead of crashing the menu.
+
+export const DEFAULT_LEVEL_ID = 'classic';
+
+const LEVEL_FILES: Record<string, unknown> = {
+  classic,
+  'open-court': openCourt,
+  fortress,
+  pillars,
+  funhouse,
+};
+
+export type BundledLevel =
+  | { id: string; level: LevelDefinition; error?: undefined }
+  | { id: string; level?: undefined; error: string };
+
+export const BUNDLED_LEVELS: BundledLevel[] = Object.entries(LEVEL_FILES).map(([id, data]) => {
+  try {
+    return { id, level: parseLevel(data) };
+  } catch (e) {
+    return { id, error: e instanceof Error ? e.message : `Level "${id}" could not be loaded.` };
+  }
+});
+
+export const CLASSIC_LEVEL: LevelDefinition = parseLevel(classic);
@@ -0,0 +1,309 @@
+import { GAME_WIDTH } from '../constants';
+import { GameSettings } from '../game/settings';
+import { MatchFlowState } from '../game/matchFlow';
+import { MatchStats } from '../game/stats';
+import { PaddleState, Side, SimulationConfig } from '../game/types';
+import { SnapshotBuffer } from './SnapshotBuffer';
+import {
+  ClientMessage,
+  DEFAULT_SERVER_PORT,
+  PROTOCOL_VERSION,
+  RECONNECT_GRACE_MS,
+  PlayerFlowAction,
+  RoomPlayers,
+  ServerMessage,
+  readServerMessage,
+} from './protocol';
+
+// --- Online Client ---
+// The browser's side of an online match. It keeps the connection to the match server (with
+// automatic reconnects), measures latency, buffers snapshots for interpolation and predicts the
+// local paddle, so it moves the moment the player does instead of one round trip later.
+
+export type ConnectionState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export type OnlineStatus = {
+  connection: ConnectionState;
+  code: string | null;
+  seat: Side | null;
+  players: RoomPlayers;
+  // Smoothed round trip to the server, in milliseconds.
+  latency: number | null;
+  error: string | null;
+};
+
+export type OnlineClientEvents = {
+  status: OnlineStatus;
+  // A match started, or was picked up again after a reconnect.
+  match: SimulationConfig;
+  flow: MatchFlowState;
+  stats: MatchStats;
+};
+
+type Listener<K extends keyof OnlineClientEvents> = (value: OnlineClientEvents[K]) => void;
+
+const PING_INTERVAL_MS = 2000;
+// Weight of the newest round trip in the smoothed latency.
+const LATENCY_SMOOTHING = 0.3;
+const MAX_RECONNECT_DELAY_MS = 5000;
+
+// The match server on the machine serving the page, which is how `npm run server` runs it.
+export const defaultServerUrl = () => {
+  const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+  return `${protocol}://${window.location.hostname || 'localhost'}:${DEFAULT_SERVER_PORT}`;
+};
+
+export class OnlineClient {
+  readonly snapshots = new SnapshotBuffer();
+  private socket: WebSocket | null = null;
+  private status: OnlineStatus = {
+    connection: 'closed',
+    code: null,
+    seat: null,
+    players: { player: null, ai: null },
+    latency: null,
+    error: null,
+  };
+  private readonly listeners = new Map<keyof OnlineClientEvents, Set<Listener<keyof OnlineClientEvents>>>();
+  private config: SimulationConfig | null = null;
+  private token: string | null = null;
+  // Sent create/join/rejoin and waiting for a seat; an error now means giving up.
+  private awaitingSeat = false;
+  private pingHandle: number | null = null;
+  private reconnectHandle: number | null = null;
+  private disconnectedAt: number | null = null;
+  private reconnectAttempts = 0;
+  // Local paddle prediction: the center last sent, the `seq` it went with and the last `seq` the
+  // server has applied.
+  private predictedCenter: number | null = null;
+  private inputSeq = 0;
+  private ackedSeq = 0;
+
+  constructor(private readonly url: string) {}
+
+  getStatus() {
+    return this.status;
+  }
+
+  getConfig() {
+    return this.config;
+  }
+
+  on<K extends keyof OnlineClientEvents>(type: K, listener: Listener<K>) {
+    // Each set only ever holds listeners for its own event, and emit only hands them that value.
+    const stored = listener as Listener<keyof OnlineClientEvents>;
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+    this.listeners.get(type)!.add(stored);
+    return () => {
+      this.listeners.get(type)?.delete(stored);
+    };
+  }
+
+  // Opens a room with these settings and waits in it for an opponent.
+  create(name: string, settings: GameSettings) {
+    this.connect({ type: 'create', version: PROTOCOL_VERSION, name, settings });
+  }
+
+  join(code: string, name: string) {
+    this.connect({ type: 'join', version: PROTOCOL_VERSION, code, name });
+  }
+
+  // Pausing and resuming go through the server, which pauses both players.
+  sendFlowAction(action: PlayerFlowAction) {
+    this.send({ type: 'flow', action });
+  }
+
+  requestRematch() {
+    this.send({ type: 'rematch' });
+  }
+
+  // Leaves the room for good; a match in progress is forfeited.
+  leave() {
+    this.send({ type: 'leave' });
+    this.token = null;
+    this.shutDown();
+    this.updateStatus({ connection: 'closed', code: null, seat: null, players: { player: null, ai: null } });
+  }
+
+  // --- Prediction ---
+
+  // Where the local paddle's center is as far as the player can tell.
+  paddleCenter(): number | null {
+    const paddle = this.serverPaddle();
+    if (!paddle) return null;
+    return this.hasPendingInput() ? this.predictedCenter! : paddle.x + paddle.width / 2;
+  }
+
+  // Moves the local paddle towards `x` right away and tells the server.
+  movePaddle(x: number) {
+    const paddle = this.serverPaddle();
+    if (!paddle) return;
+    const center = Math.max(paddle.width / 2, Math.min(GAME_WIDTH - paddle.width / 2, x));
+    this.predictedCenter = center;
+    this.inputSeq++;
+    this.send({ type: 'input', seq: this.inputSeq, x: center });
+  }
+
+  // The local paddle as it should be drawn: the latest server position, or the predicted one while
+  // the server has not applied every input yet.
+  localPaddle(): PaddleState | null {
+    const paddle = this.serverPaddle();
+    if (!paddle) return null;
+    if (!this.hasPendingInput()) return paddle;
+    return { ...paddle, x: this.predictedCenter! - paddle.width / 2 };
+  }
+
+  private hasPendingInput() {
+    return this.predictedCenter !== null && this.ackedSeq < this.inputSeq;
+  }
+
+  private serverPaddle(): PaddleState | null {
+    const { seat } = this.status;
+    const latest = this.snapshots.latest;
+    return seat && latest ? latest.paddles[seat] : null;
+  }
+
+  // --- Connection ---
+
+  private connect(first: ClientMessage) {
+    this.shutDown();
+    this.updateStatus({ connection: this.token ? 'reconnecting' : 'connecting', error: null });
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch {
+      this.updateStatus({ connection: 'closed', error: `"${this.url}" is not a valid server address.` });
+      return;
+    }
+    this.socket = socket;
+    socket.onopen = () => {
+      this.awaitingSeat = true;
+      socket.send(JSON.stringify(first));
+      this.startPinging();
+    };
+    socket.onmessage = event => {
+      // A frame we can't read is dropped instead of throwing out of the socket handler.
+      const message = typeof event.data === 'string' ? readServerMessage(event.data) : null;
+      if (message) this.handleMessage(message);
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.handleConnectionLost();
+    };
+  }
+
+  private handleConnectionLost() {
+    this.stopPinging();
+    this.socket = null;
+    if (!this.token) {
+      this.updateStatus({ connection: 'closed', error: this.status.error ?? `Could not reach the match server at ${this.url}.` });
+      return;
+    }
+    // Keep trying for as long as the server keeps the seat.
+    this.disconnectedAt ??= performance.now();
+    if (performance.now() - this.disconnectedAt > RECONNECT_GRACE_MS) {
+      this.token = null;
+      this.updateStatus({ connection: 'closed', error: 'Lost the connection to the match server.' });
+      return;
+    }
+    this.updateStatus({ connection: 'reconnecting' });
+    const delay = Math.min(MAX_RECONNECT_DELAY_MS, 500 * 2 ** this.reconnectAttempts);
+    this.reconnectAttempts++;
+    this.reconnectHandle = window.setTimeout(() => {
+      this.reconnectHandle = null;
+      if (this.token && this.status.code) {
+        this.connect({ type: 'rejoin', version: PROTOCOL_VERSION, code: this.status.code, token: this.token });
+      }
+    }, delay);
+  }
+
+  private handleMessage(message: ServerMessage) {
+    switch (message.type) {
+      case 'joined':
+        this.awaitingSeat = false;
+        this.token = message.token;
+        this.disconnectedAt = null;
+        this.reconnectAttempts = 0;
+        this.updateStatus({ connection: 'open', code: message.code, seat: message.seat, error: null });
+        break;
+      case 'room':
+        this.updateStatus({ players: message.players });
+        break;
+      case 'match': {
+        // After a reconnect the server resends the match in progress; only a new one is announced.
+        const isNewMatch = this.config?.seed !== message.config.seed;
+        this.config = message.config;
+        this.snapshots.reset(message.state, performance.now());
+        this.predictedCenter = null;
+        this.ackedSeq = this.inputSeq;
+        if (isNewMatch) this.emit('match', message.config);
+        this.emit('flow', message.flow);
+        break;
+      }
+      case 'snapshot':
+        this.snapshots.push(message.state, message.events, performance.now());
+        if (this.status.seat) this.ackedSeq = message.acks[this.status.seat];
+        break;
+      case 'flow':
+        this.emit('flow', message.flow);
+        break;
+      case 'stats':
+        this.emit('stats', message.stats);
+        break;
+      case 'pong': {
+        const roundTrip = performance.now() - message.sentAt;
+        const { latency } = this.status;
+        this.updateStatus({
+          latency: Math.round(latency === null ? roundTrip : latency + (roundTrip - latency) * LATENCY_SMOOTHING),
+        });
+        break;
+      }
+      case 'error':
+        if (this.awaitingSeat) {
+          // The room is gone or would not take us; there is nothing to reconnect to.
+          this.awaitingSeat = false;
+          this.token = null;
+          this.shutDown();
+          this.updateStatus({ connection: 'closed', error: message.message });
+        } else {
+          this.updateStatus({ error: message.message });
+        }
+        break;
+    }
+  }
+
+  private send(message: ClientMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+
+  private startPinging() {
+    this.stopPinging();
+    const ping = () => this.send({ type: 'ping', sentAt: performance.now() });
+    ping();
+    this.pingHandle = window.setInterval(ping, PING_INTERVAL_MS);
+  }
+
+  private stopPinging() {
+    if (this.pingHandle !== null) window.clearInterval(this.pingHandle);
+    this.pingHandle = null;
+  }
+
+  // Closes the socket without triggering a reconnect.
+  private shutDown() {
+    this.stopPinging();
+    if (this.reconnectHandle !== null) window.clearTimeout(this.reconnectHandle);
+    this.reconnectHandle = null;
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  private updateStatus(changes: Partial<OnlineStatus>) {
+    this.status = { ...this.status, ...changes };
+    this.emit('status', this.status);
+  }
+
+  private emit<K extends keyof OnlineClientEvents>(type: K, value: OnlineClientEvents[K]) {
+    this.listeners.get(type)?.forEach(listener => listener(value));
+  }
+}
@@ -0,0 +1,103 @@
+import { STEPS_PER_SECOND } from '../constants';
+import { SimulationEvent, SimulationState } from '../game/types';
+import { SNAPSHOT_INTERVAL } from './protocol';
+
+// --- Snapshot Interpolation ---
+// Server snapshots arrive in uneven bursts, so the ball, the blocks and the opponent's paddle are
+// drawn slightly in the past, between the two snapshots around that moment. The render clock runs
+// at real time and is nudged towards "latest snapshot minus the delay", which absorbs jitter
+// without visible jumps.
+
+// How far behind the latest snapshot the scene is drawn, in simulation steps (100 ms).
+export const INTERPOLATION_DELAY = 3 * SNAPSHOT_INTERVAL;
+// Fraction of the gap to its target the render clock closes each frame.
+const CLOCK_CORRECTION = 0.1;
+// Beyond this many steps off target the render clock jumps instead of drifting.
+const MAX_CLOCK_DRIFT = 4 * SNAPSHOT_INTERVAL;
+
+type Snapshot = {
+  state: SimulationState;
+  // Events of the steps since the snapshot before.
+  events: SimulationEvent[];
+};
+
+// A snapshot the render clock has just passed, with the state it followed.
+export type ReachedSnapshot = {
+  before: SimulationState;
+  after: SimulationState;
+  events: SimulationEvent[];
+};
+
+export type InterpolatedFrame = {
+  // Draw `alpha` of the way from `previous` to `current`, like the local game's fixed-step frames.
+  previous: SimulationState;
+  current: SimulationState;
+  alpha: number;
+  reached: ReachedSnapshot[];
+};
+
+export class SnapshotBuffer {
+  private snapshots: Snapshot[] = [];
+  // Arrival time of the latest snapshot, in performance.now() milliseconds.
+  private latestAt = 0;
+  private renderTick = 0;
+  private lastFrameAt: number | null = null;
+  // Tick of the last snapshot whose events were handed out.
+  private reachedTick = 0;
+
+  // Starts over from a full state, e.g. when a match starts or after a reconnect.
+  reset(state: SimulationState, now: number) {
+    this.snapshots = [{ state, events: [] }];
+    this.latestAt = now;
+    this.renderTick = state.tick;
+    this.lastFrameAt = null;
+    this.reachedTick = state.tick;
+  }
+
+  get latest(): SimulationState | null {
+    return this.snapshots[this.snapshots.length - 1]?.state ?? null;
+  }
+
+  push(state: SimulationState, events: SimulationEvent[], now: number) {
+    const latest = this.latest;
+    if (latest && state.tick <= latest.tick) return;
+    this.snapshots.push({ state, events });
+    this.latestAt = now;
+  }
+
+  // Advances the render clock to `now` and returns what to draw, plus any snapshots passed since
+  // the previous frame. Returns null before the first snapshot.
+  frame(now: number): InterpolatedFrame | null {
+    const latest = this.latest;
+    if (!latest) return null;
+
+    const target = latest.tick + ((now - this.latestAt) / 1000) * STEPS_PER_SECOND - INTERPOLATION_DELAY;
+    if (this.lastFrameAt === null || Math.abs(target - this.renderTick) > MAX_CLOCK_DRIFT) {
+      this.renderTick = target;
+    } else {
+      this.renderTick += ((now - this.lastFrameAt) / 1000) * STEPS_PER_SECOND;
+      this.renderTick += (target - this.renderTick) * CLOCK_CORRECTION;
+    }
+    this.lastFrameAt = now;
+    // Never run ahead of the server; while it holds play the scene holds on its last snapshot.
+    this.renderTick = Math.min(this.renderTick, latest.tick);
+
+    const reached: ReachedSnapshot[] = [];
+    this.snapshots.forEach((snapshot, i) => {
+      if (i === 0 || snapshot.state.tick <= this.reachedTick || snapshot.state.tick > this.renderTick) return;
+      reached.push({ before: this.snapshots[i - 1].state, after: snapshot.state, events: snapshot.events });
+      this.reachedTick = snapshot.state.tick;
+    });
+
+    // The last snapshot at or before the render clock; older ones are no longer needed.
+    let index = 0;
+    while (index + 1 < this.snapshots.length && this.snapshots[index + 1].state.tick <= this.renderTick) index++;
+    this.snapshots.splice(0, index);
+
+    const previous = this.snapshots[0].state;
+    const next = this.snapshots[1]?.state;
+    if (!next) return { previous, current: previous, alpha: 1, reached };
+    const alpha = Math.max(0, (this.renderTick - previous.tick) / (next.tick - previous.tick));
+    return { previous, current: next, alpha, reached };
+  }
+}
@@ -0,0 +1,178 @@
+import { GameSettings } from '../game/settings';
+import { MatchFlowState } from '../game/matchFlow';
+import { MatchStats } from '../game/stats';
+import { Side, SimulationConfig, SimulationEvent, SimulationState } from '../game/types';
+
+// --- Online Match Protocol ---
+// Messages between the browser and the match server, sent as JSON text over a WebSocket. The
+// server owns the simulation: clients send where they want their paddle and draw the states the
+// server sends back. The host creates a room and plays the bottom paddle ('player'); the guest
+// joins with the room's lobby code and plays the top one ('ai').
+
+// Bumped whenever a message changes shape; the server turns away clients that don't match.
+export const PROTOCOL_VERSION = 1;
+
+export const DEFAULT_SERVER_PORT = 8787;
+
+// The server sends a snapshot every this many simulation steps.
+export const SNAPSHOT_INTERVAL = 2;
+
+// How long a disconnected player's seat is kept before the opponent wins by forfeit.
+export const RECONNECT_GRACE_MS = 30_000;
+
+// Lobby codes avoid letters that are easily confused with digits (I, O).
+export const LOBBY_CODE_LENGTH = 4;
+export const LOBBY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+export const MAX_NAME_LENGTH = 16;
+
+// Codes are typed in by hand, so case and surrounding spaces don't matter.
+export const normalizeLobbyCode = (code: string) => code.trim().toUpperCase();
+
+export const isLobbyCode = (code: string) =>
+  code.length === LOBBY_CODE_LENGTH && [...code].every(letter => LOBBY_CODE_ALPHABET.includes(letter));
+
+export type RoomPlayer = {
+  name: string;
+  connected: boolean;
+  // Asked for another match on the Game Over screen.
+  wantsRematch: boolean;
+};
+
+export type RoomPlayers = Record<Side, RoomPlayer | null>;
+
+// The match-flow actions players may send; the server runs everything else itself.
+export type PlayerFlowAction = 'pause' | 'resume' | 'togglePause';
+
+const PLAYER_FLOW_ACTIONS: PlayerFlowAction[] = ['pause', 'resume', 'togglePause'];
+
+export type ClientMessage =
+  | { type: 'create'; version: number; name: string; settings: GameSettings }
+  | { type: 'join'; version: number; code: string; name: string }
+  // Takes a seat back after a dropped connection; `token` came with the 'joined' message.
+  | { type: 'rejoin'; version: number; code: string; token: string }
+  // Desired center X of the sender's paddle. `seq` counts up with every input sent.
+  | { type: 'input'; seq: number; x: number }
+  | { type: 'flow'; action: PlayerFlowAction }
+  | { type: 'rematch' }
+  | { type: 'leave' }
+  // `sentAt` is the client's clock; the server echoes it back in a 'pong'.
+  | { type: 'ping'; sentAt: number };
+
+export type ServerMessage =
+  // The sender has a seat in room `code`. Keep `token` to reclaim the seat after a disconnect.
+  | { type: 'joined'; code: string; seat: Side; token: string }
+  | { type: 'room'; players: RoomPlayers }
+  // A match started, or the sender rejoined one: everything needed to draw it from scratch.
+  | { type: 'match'; config: SimulationConfig; state: SimulationState; flow: MatchFlowState }
+  // The state after the latest steps, with every event since the previous snapshot. `acks` holds
+  // the last input `seq` applied for each seat.
+  | { type: 'snapshot'; state: SimulationState; events: SimulationEvent[]; acks: Record<Side, number> }
+  | { type: 'flow'; flow: MatchFlowState }
+  // Sent once the match is over, before the flow moves to 'matchOver'.
+  | { type: 'stats'; stats: MatchStats }
+  | { type: 'pong'; sentAt: number }
+  | { type: 'error'; message: string };
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isText = (value: unknown, maxLength: number): value is string =>
+  typeof value === 'string' && value.length <= maxLength;
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const isSide = (value: unknown): value is Side => value === 'player' || value === 'ai';
+
+/**
+ * Reads a message from a client, or returns null if it is malformed. Settings in a 'create'
+ * message are only checked to be an object here; the server validates them with readSettings.
+ */
+export const readClientMessage = (text: string): ClientMessage | null => {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== 'object') return null;
+  switch (data.type) {
+    case 'create':
+      return isFiniteNumber(data.version) && isText(data.name, MAX_NAME_LENGTH) && !!data.settings && typeof data.settings === 'object'
+        ? { type: 'create', version: data.version, name: data.name, settings: data.settings as GameSettings }
+        : null;
+    case 'join':
+      return isFiniteNumber(data.version) && isText(data.code, 32) && isText(data.name, MAX_NAME_LENGTH)
+        ? { type: 'join', version: data.version, code: data.code, name: data.name }
+        : null;
+    case 'rejoin':
+      return isFiniteNumber(data.version) && isText(data.code, 32) && isText(data.token, 64)
+        ? { type: 'rejoin', version: data.version, code: data.code, token: data.token }
+        : null;
+    case 'input':
+      return isFiniteNumber(data.seq) && isFiniteNumber(data.x) ? { type: 'input', seq: data.seq, x: data.x } : null;
+    case 'flow':
+      return PLAYER_FLOW_ACTIONS.includes(data.action as PlayerFlowAction)
+        ? { type: 'flow', action: data.action as PlayerFlowAction }
+        : null;
+    case 'rematch':
+    case 'leave':
+      return { type: data.type };
+    case 'ping':
+      return isFiniteNumber(data.sentAt) ? { type: 'ping', sentAt: data.sentAt } : null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Reads a message from the match server, or returns null if it is malformed. States, configs,
+ * flow and stats come from the server's own simulation, so they are only checked to be objects;
+ * the fields the client reads straight off the message are checked in full.
+ */
+export const readServerMessage = (text: string): ServerMessage | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isObject(data)) return null;
+  switch (data.type) {
+    case 'joined':
+      return isText(data.code, 32) && isSide(data.seat) && isText(data.token, 64)
+        ? { type: 'joined', code: data.code, seat: data.seat, token: data.token }
+        : null;
+    case 'room':
+      return isObject(data.players) ? { type: 'room', players: data.players as RoomPlayers } : null;
+    case 'match':
+      return isObject(data.config) && isObject(data.state) && isObject(data.flow)
+        ? {
+            type: 'match',
+            config: data.config as SimulationConfig,
+            state: data.state as SimulationState,
+            flow: data.flow as MatchFlowState,
+          }
+        : null;
+    case 'snapshot': {
+      const { acks } = data;
+      return isObject(data.state) && Array.isArray(data.events) && isObject(acks) && isFiniteNumber(acks.player) && isFiniteNumber(acks.ai)
+        ? {
+            type: 'snapshot',
+            state: data.state as SimulationState,
+            events: data.events as SimulationEvent[],
+            acks: { player: acks.player, ai: acks.ai },
+          }
+        : null;
+    }
+    case 'flow':
+      return isObject(data.flow) ? { type: 'flow', flow: data.flow as MatchFlowState } : null;
+    case 'stats':
+      return isObject(data.stats) ? { type: 'stats', stats: data.stats as MatchStats } : null;
+    case 'pong':
+      return isFiniteNumber(data.sentAt) ? { type: 'pong', sentAt: data.sentAt } : null;
+    case 'error':
+      return typeof data.message === 'string' ? { type: 'error', message: data.message } : null;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,174 @@
+import assert from 'node:assert/strict';
+import { BALL_RADIUS, GAME_HEIGHT, GAME_WIDTH } from '../constants';
+import { GameMode } from '../types';
+import { DEFAULT_SETTINGS, GameSettings, createMatchConfig, settingsFromParams } from '../game/settings';
+import { createSimulationState, stepSimulation } from '../game/PongSimulation';
+import { AI_CONTROLLERS } from '../game/ai/controllers';
+import { LevelDefinition } from '../game/levels';
+import { SimulationConfig, SimulationEvent, SimulationState, Vector } from '../game/types';
+
+// --- Simulation Checks ---
+// Runs the simulation headless under Node: the basic rules of play, and situations that once broke
+// it or the settings that feed it. Run with `npm run check`.
+
+const OPEN_COURT: LevelDefinition = { version: 1, name: 'Open Court', description: '', regenerate: true, blocks: [] };
+
+// One block in the middle of the field, two hits from breaking.
+const ONE_BLOCK: LevelDefinition = {
+  ...OPEN_COURT,
+  name: 'One Block',
+  blocks: [{ type: 'breakable', x: 360, y: 250, width: 80, height: 30, health: 2, color: '#4A5568' }],
+};
+
+// Two-player mode, so the top paddle stays where it is unless a check moves it.
+const createCourt = (level = OPEN_COURT, settings: Partial<GameSettings> = {}) => {
+  const config = createMatchConfig({ ...DEFAULT_SETTINGS, mode: GameMode.LocalVersus, ...settings }, level, 1);
+  return { config, state: createSimulationState(config) };
+};
+
+// Replaces the served ball with one at (x, y) moving along `velocity`.
+const placeBall = (state: SimulationState, x: number, y: number, velocity: Vector) => {
+  const [ball] = state.balls;
+  state.balls = [ball];
+  ball.x = x;
+  ball.y = y;
+  ball.velocity = { ...velocity };
+  ball.speed = Math.hypot(velocity.x, velocity.y);
+  return ball;
+};
+
+// Steps until an event of `type` happens, and returns the state it happened in.
+const stepUntil = (state: SimulationState, config: SimulationConfig, type: SimulationEvent['type'], maxSteps = 60) => {
+  for (let i = 0; i < maxSteps; i++) {
+    const result = stepSimulation(state, {}, config);
+    state = result.state;
+    const event = result.events.find(event => event.type === type);
+    if (event) return { state, event };
+  }
+  assert.fail(`no '${type}' event within ${maxSteps} steps`);
+};
+
+const checkWallBounce = () => {
+  const { config, state } = createCourt();
+  placeBall(state, BALL_RADIUS + 2, GAME_HEIGHT / 2, { x: -5, y: 1 });
+  const [ball] = stepUntil(state, config, 'wallBounce').state.balls;
+  assert.ok(ball.velocity.x > 0, `ball still heads into the wall, velocity x = ${ball.velocity.x}`);
+  assert.ok(ball.x >= BALL_RADIUS, `ball went through the wall to x = ${ball.x}`);
+  assert.ok(Math.abs(Math.hypot(ball.velocity.x, ball.velocity.y) - ball.speed) < 1e-9, 'the bounce changed the speed');
+};
+
+const checkBlockBounceAndBreak = () => {
+  const { config, state } = createCourt(ONE_BLOCK);
+  placeBall(state, 400, 300, { x: 0, y: -5 });
+  let { state: hit } = stepUntil(state, config, 'blockHit');
+  assert.ok(hit.balls[0].velocity.y > 0, 'ball did not bounce off the block');
+  assert.equal(hit.blocks[0].health, 1);
+  assert.ok(hit.blocks[0].visible, 'block broke on its first hit');
+
+  placeBall(hit, 400, 300, { x: 0, y: -5 });
+  hit = stepUntil(hit, config, 'blockDestroyed').state;
+  assert.ok(!hit.blocks[0].visible, 'block is still there after its last hit');
+  assert.ok(hit.balls[0].velocity.y > 0, 'ball did not bounce off the breaking block');
+};
+
+const checkScoringOnBothGoalLines = () => {
+  const { config, state } = createCourt();
+  // Well clear of the paddles, which start in the middle.
+  placeBall(state, 60, BALL_RADIUS + 1, { x: 0, y: -5 });
+  const top = stepUntil(state, config, 'point');
+  assert.deepEqual(top.event, { type: 'point', scorer: 'player', ballId: state.balls[0].id });
+  assert.deepEqual(top.state.score, { player: 1, ai: 0 });
+
+  placeBall(top.state, 60, GAME_HEIGHT - BALL_RADIUS - 1, { x: 0, y: 5 });
+  const bottom = stepUntil(top.state, config, 'point');
+  assert.deepEqual(bottom.event, { type: 'point', scorer: 'ai', ballId: top.state.balls[0].id });
+  assert.deepEqual(bottom.state.score, { player: 1, ai: 1 });
+};
+
+// At full difficulty there is no aiming error, so the classic AI heads exactly for where a ball
+// coming straight at it will arrive, and back to the middle once the ball moves away.
+const checkClassicAiDecision = () => {
+  const { state } = createCourt();
+  const paddle = state.paddles.ai;
+  const ball = placeBall(state, 200, GAME_HEIGHT / 2, { x: 0, y: -5 });
+  const approaching = AI_CONTROLLERS.classic.decide({ state, paddle, ball, difficulty: 1 }, { rngState: 1 });
+  assert.equal(approaching.targetX, 200);
+
+  ball.velocity.y = 5;
+  const leaving = AI_CONTROLLERS.classic.decide({ state, paddle, ball, difficulty: 1 }, { rngState: 1 });
+  assert.equal(leaving.targetX, GAME_WIDTH / 2);
+};
+
+// A paddle moving onto a ball next to a side wall used to push it out through the wall, where the
+// wall and the paddle bounced it back and forth every step and the match never went on.
+const checkBallPinnedAgainstWall = () => {
+  const { config, state: start } = createCourt();
+  let state = start;
+  const ball = placeBall(state, 13.81, 42.17, { x: -10.56, y: -5.15 });
+  const aiX = 16.05 + state.paddles.ai.width / 2;
+
+  let stuckSteps = 0;
+  for (let i = 0; i < 120; i++) {
+    const result = stepSimulation(state, { aiX }, config);
+    state = result.state;
+    const current = state.balls.find(b => b.id === ball.id);
+    if (!current) break;
+    assert.ok(
+      current.x >= BALL_RADIUS && current.x <= GAME_WIDTH - BALL_RADIUS,
+      `step ${state.tick}: ball left the field at x = ${current.x}`,
+    );
+    const bounces = result.events.filter(event => event.type === 'wallBounce' || event.type === 'paddleHit');
+    stuckSteps = bounces.length > 1 ? stuckSteps + 1 : 0;
+    assert.ok(stuckSteps < 3, `step ${state.tick}: ball is stuck between the wall and the paddle`);
+  }
+};
+
+// The same situation as it first turned up, in a full match against the follower AI.
+const checkFollowerMatchStaysOnField = () => {
+  const settings = {
+    ...DEFAULT_SETTINGS,
+    ai: { ...DEFAULT_SETTINGS.ai, personality: 'follower' as const },
+    rules: { ...DEFAULT_SETTINGS.rules, targetScore: 11 },
+  };
+  const config = createMatchConfig(settings, OPEN_COURT, 46);
+  let state = createSimulationState(config);
+  while (!state.match.winner) {
+    state = stepSimulation(state, {}, config).state;
+    assert.ok(state.tick < 20000, 'the match did not finish');
+    state.balls.forEach(ball => assert.ok(
+      ball.x >= BALL_RADIUS && ball.x <= GAME_WIDTH - BALL_RADIUS,
+      `step ${state.tick}: ball left the field at x = ${ball.x}`,
+    ));
+  }
+};
+
+// Names that only exist on Object.prototype, such as 'constructor', used to pass as an opponent or
+// serve rule. Saved from a shared link, they broke every later match until storage was cleared.
+const checkPrototypeKeysInLinkRejected = () => {
+  const params = new URLSearchParams('opponent=constructor&serve=toString');
+  const { settings, rejected } = settingsFromParams(params, DEFAULT_SETTINGS);
+  assert.deepEqual(rejected, ['ai', 'rules']);
+  assert.deepEqual(settings, DEFAULT_SETTINGS);
+};
+
+const CHECKS: [string, () => void][] = [
+  ['ball bounces off a side wall', checkWallBounce],
+  ['ball bounces off a block and breaks it', checkBlockBounceAndBreak],
+  ['points are scored on both goal lines', checkScoringOnBothGoalLines],
+  ['classic AI heads for the ball', checkClassicAiDecision],
+  ['ball pinned against a side wall by a paddle', checkBallPinnedAgainstWall],
+  ['follower match on an open court stays on the field', checkFollowerMatchStaysOnField],
+  ['settings link naming prototype keys is rejected', checkPrototypeKeysInLinkRejected],
+];
+
+let failed = 0;
+CHECKS.forEach(([name, check]) => {
+  try {
+    check();
+    console.log(`ok   ${name}`);
+  } catch (e) {
+    failed++;
+    console.error(`FAIL ${name}\n     ${e instanceof Error ? e.message : e}`);
+  }
+});
+if (failed) process.exit(1);
@@ -0,0 +1,60 @@
+import { WebSocket } from 'ws';
+import { BUNDLED_LEVELS } from '../levels';
+import { DEFAULT_SETTINGS, SETTING_LABELS, readSettings } from '../game/settings';
+import { Side } from '../game/types';
+import { LOBBY_CODE_ALPHABET, LOBBY_CODE_LENGTH, isLobbyCode, normalizeLobbyCode } from '../net/protocol';
+import { MatchRoom } from './MatchRoom';
+
+// --- Lobby ---
+// Open rooms by lobby code. Rooms remove themselves once everyone has left.
+
+export type Seating = { room: MatchRoom; side: Side };
+
+const randomCode = () =>
+  Array.from({ length: LOBBY_CODE_LENGTH }, () => LOBBY_CODE_ALPHABET[Math.floor(Math.random() * LOBBY_CODE_ALPHABET.length)]).join('');
+
+export class Lobby {
+  private readonly rooms = new Map<string, MatchRoom>();
+
+  get roomCount() {
+    return this.rooms.size;
+  }
+
+  // Opens a room with the host's settings and seats the host. Throws if the settings don't check out.
+  create(socket: WebSocket, name: string, settingsData: unknown): Seating {
+    const { settings, rejected } = readSettings(settingsData, DEFAULT_SETTINGS);
+    if (rejected.length > 0) {
+      throw new Error(`The server can't use these settings: ${rejected.map(key => SETTING_LABELS[key]).join(', ')}.`);
+    }
+    const level = BUNDLED_LEVELS.find(entry => entry.id === settings.levelId)?.level;
+    if (!level) throw new Error(`Unknown level "${settings.levelId}".`);
+
+    let code = randomCode();
+    while (this.rooms.has(code)) code = randomCode();
+    const room = new MatchRoom(code, settings, level, closed => this.rooms.delete(closed.code));
+    this.rooms.set(code, room);
+    return { room, side: room.seat(socket, name)! };
+  }
+
+  join(socket: WebSocket, code: string, name: string): Seating {
+    const room = this.find(code);
+    const side = room.seat(socket, name);
+    if (!side) throw new Error(`Room ${room.code} is full.`);
+    return { room, side };
+  }
+
+  rejoin(socket: WebSocket, code: string, token: string): Seating {
+    const room = this.find(code);
+    const side = room.rejoin(socket, token);
+    if (!side) throw new Error(`Your seat in room ${room.code} is gone.`);
+    return { room, side };
+  }
+
+  private find(code: string) {
+    const normalized = normalizeLobbyCode(code);
+    if (!isLobbyCode(normalized)) throw new Error(`"${code}" is not a lobby code.`);
+    const room = this.rooms.get(normalized);
+    if (!room) throw new Error(`No room with code ${normalized}.`);
+    return room;
+  }
+}
@@ -0,0 +1,350 @@
+import { randomUUID } from 'node:crypto';
+import { WebSocket } from 'ws';
+import { MAX_STEPS_PER_FRAME, STEPS_PER_SECOND } from '../constants';
+import { GameMode } from '../types';
+import { PongSimulation } from '../game/PongSimulation';
+import { createSeed } from '../game/rng';
+import { GameSettings, createMatchConfig } from '../game/settings';
+import { LevelDefinition } from '../game/levels';
+import { MatchStats, MatchStatsTracker } from '../game/stats';
+import {
+  MatchFlowAction,
+  MatchFlowState,
+  flowActionFor,
+  flowTimer,
+  isInMatch,
+  matchFlowReducer,
+} from '../game/matchFlow';
+import { Side, SimulationConfig, SimulationEvent } from '../game/types';
+import { ClientMessage, RECONNECT_GRACE_MS, RoomPlayers, SNAPSHOT_INTERVAL, ServerMessage } from '../net/protocol';
+
+// --- Match Room ---
+// One online match: two seats, the authoritative simulation and the match flow. The simulation
+// steps at the same fixed rate as in the browser, on the latest paddle position each player sent,
+// and the room sends a snapshot to both players every SNAPSHOT_INTERVAL steps.
+
+const STEP_MS = 1000 / STEPS_PER_SECOND;
+
+const SIDES: Side[] = ['player', 'ai'];
+
+const opponentOf = (side: Side): Side => (side === 'player' ? 'ai' : 'player');
+
+type Seat = {
+  name: string;
+  // Proves who is reclaiming the seat after a dropped connection.
+  token: string;
+  // Null while the player is disconnected.
+  socket: WebSocket | null;
+  wantsRematch: boolean;
+  // Latest paddle position received and not yet applied, and the `seq` it came with.
+  pendingX: number | undefined;
+  receivedSeq: number;
+  // `seq` of the last input applied to the simulation.
+  appliedSeq: number;
+  // Runs out RECONNECT_GRACE_MS after a disconnect.
+  graceTimer: NodeJS.Timeout | null;
+};
+
+export class MatchRoom {
+  private readonly seats: Record<Side, Seat | null> = { player: null, ai: null };
+  private flow: MatchFlowState = { phase: 'lobby' };
+  private config: SimulationConfig | null = null;
+  private simulation: PongSimulation | null = null;
+  private stats = new MatchStatsTracker();
+  private finalStats: MatchStats | null = null;
+  // Events since the last snapshot.
+  private unsentEvents: SimulationEvent[] = [];
+  private stepsSinceSnapshot = 0;
+  // Set on the step that decides a point, until the flow comes back to 'inPlay'.
+  private held = false;
+  // The match was paused because a player dropped out, and resumes when they are back.
+  private pausedForDisconnect = false;
+  private loop: NodeJS.Timeout | null = null;
+  private flowTimerHandle: NodeJS.Timeout | null = null;
+  private lastLoopAt = 0;
+  private accumulator = 0;
+
+  constructor(
+    readonly code: string,
+    private readonly settings: GameSettings,
+    private readonly level: LevelDefinition,
+    // Called once nobody is left in the room.
+    private readonly onEmpty: (room: MatchRoom) => void,
+  ) {}
+
+  get isFull() {
+    return SIDES.every(side => this.seats[side]);
+  }
+
+  // Gives `socket` the first free seat and returns it, or null when the room is full. The match
+  // starts as soon as both seats are taken.
+  seat(socket: WebSocket, name: string): Side | null {
+    const side = SIDES.find(side => !this.seats[side]);
+    if (!side) return null;
+    const seat: Seat = {
+      name: name.trim() || (side === 'player' ? 'Host' : 'Guest'),
+      token: randomUUID(),
+      socket,
+      wantsRematch: false,
+      pendingX: undefined,
+      receivedSeq: 0,
+      appliedSeq: 0,
+      graceTimer: null,
+    };
+    this.seats[side] = seat;
+    this.send(side, { type: 'joined', code: this.code, seat: side, token: seat.token });
+    this.broadcastRoom();
+    if (this.isFull) this.startMatch();
+    return side;
+  }
+
+  // Puts a reconnecting player back in their seat. Returns the seat, or null for an unknown token.
+  rejoin(socket: WebSocket, token: string): Side | null {
+    const side = SIDES.find(side => this.seats[side]?.token === token);
+    if (!side) return null;
+    const seat = this.seats[side]!;
+    if (seat.socket && seat.socket !== socket) seat.socket.close();
+    seat.socket = socket;
+    if (seat.graceTimer) clearTimeout(seat.graceTimer);
+    seat.graceTimer = null;
+    this.send(side, { type: 'joined', code: this.code, seat: side, token: seat.token });
+    if (this.config && this.simulation) {
+      this.send(side, { type: 'match', config: this.config, state: this.simulation.getState(), flow: this.flow });
+    }
+    if (this.finalStats) this.send(side, { type: 'stats', stats: this.finalStats });
+    this.broadcastRoom();
+    if (this.pausedForDisconnect && this.everyoneConnected()) {
+      this.pausedForDisconnect = false;
+      this.dispatch({ type: 'resume' });
+    }
+    return side;
+  }
+
+  handle(side: Side, message: ClientMessage) {
+    const seat = this.seats[side];
+    if (!seat) return;
+    switch (message.type) {
+      case 'input':
+        if (message.seq <= seat.receivedSeq) return;
+        seat.receivedSeq = message.seq;
+        seat.pendingX = message.x;
+        break;
+      case 'flow': {
+        // Nobody can resume while the opponent is away.
+        const resuming = message.action === 'resume' || (message.action === 'togglePause' && this.flow.phase === 'paused');
+        if (resuming && !this.everyoneConnected()) return;
+        this.dispatch({ type: message.action });
+        // Only leaving the pause cancels the resume on rejoin; a repeated 'pause' must not.
+        if (this.flow.phase !== 'paused') this.pausedForDisconnect = false;
+        break;
+      }
+      case 'rematch':
+        if (this.flow.phase !== 'matchOver') return;
+        seat.wantsRematch = true;
+        this.broadcastRoom();
+        if (SIDES.every(side => this.seats[side]?.wantsRematch)) this.startMatch();
+        break;
+      case 'leave':
+        this.remove(side);
+        break;
+    }
+  }
+
+  // The player's connection dropped. Their seat is kept for RECONNECT_GRACE_MS, with the match
+  // paused; after that they forfeit.
+  disconnect(side: Side, socket: WebSocket) {
+    const seat = this.seats[side];
+    // A replaced socket closing late must not unseat the player who rejoined.
+    if (!seat || seat.socket !== socket) return;
+    seat.socket = null;
+    seat.pendingX = undefined;
+    this.broadcastRoom();
+    if (isInMatch(this.flow) && this.flow.phase !== 'paused') {
+      this.pausedForDisconnect = true;
+      this.dispatch({ type: 'pause' });
+    }
+    seat.graceTimer = setTimeout(() => this.guard(() => this.remove(side)), RECONNECT_GRACE_MS);
+  }
+
+  // Stops the match and its timers for good.
+  close() {
+    this.stopLoop();
+    if (this.flowTimerHandle) clearTimeout(this.flowTimerHandle);
+    SIDES.forEach(side => {
+      const seat = this.seats[side];
+      if (seat?.graceTimer) clearTimeout(seat.graceTimer);
+      seat?.socket?.close();
+      this.seats[side] = null;
+    });
+    this.onEmpty(this);
+  }
+
+  // Takes a player out of the room; if a match was on, the opponent wins it.
+  private remove(side: Side) {
+    const seat = this.seats[side];
+    if (!seat) return;
+    if (seat.graceTimer) clearTimeout(seat.graceTimer);
+    if (isInMatch(this.flow)) this.endMatch(opponentOf(side));
+    this.seats[side] = null;
+    if (!SIDES.some(side => this.seats[side]?.socket)) {
+      this.close();
+      return;
+    }
+    this.broadcastRoom();
+  }
+
+  private everyoneConnected() {
+    return SIDES.every(side => this.seats[side]?.socket);
+  }
+
+  private startMatch() {
+    this.config = createMatchConfig(this.settings, this.level, createSeed(), GameMode.LocalVersus);
+    this.simulation = new PongSimulation(this.config);
+    this.stats = new MatchStatsTracker();
+    this.stats.record(this.simulation.getState(), []);
+    this.finalStats = null;
+    this.unsentEvents = [];
+    this.stepsSinceSnapshot = 0;
+    this.held = false;
+    this.pausedForDisconnect = false;
+    SIDES.forEach(side => {
+      const seat = this.seats[side];
+      if (!seat) return;
+      seat.wantsRematch = false;
+      seat.pendingX = undefined;
+    });
+    this.flow = matchFlowReducer(this.flow, { type: 'startMatch' });
+    this.broadcast({ type: 'match', config: this.config, state: this.simulation.getState(), flow: this.flow });
+    this.broadcastRoom();
+    this.scheduleFlowTimer();
+    this.startLoop();
+  }
+
+  private endMatch(winner: Side) {
+    this.finalStats = this.stats.finish();
+    this.broadcast({ type: 'stats', stats: this.finalStats });
+    this.dispatch({ type: 'matchEnd', winner });
+  }
+
+  private dispatch(action: MatchFlowAction) {
+    const flow = matchFlowReducer(this.flow, action);
+    if (flow === this.flow) return;
+    this.flow = flow;
+    if (flow.phase === 'inPlay') this.held = false;
+    if (flow.phase === 'matchOver') this.stopLoop();
+    this.broadcast({ type: 'flow', flow });
+    this.scheduleFlowTimer();
+  }
+
+  private scheduleFlowTimer() {
+    if (this.flowTimerHandle) clearTimeout(this.flowTimerHandle);
+    this.flowTimerHandle = null;
+    const timer = flowTimer(this.flow);
+    if (timer) this.flowTimerHandle = setTimeout(() => this.guard(() => this.dispatch(timer.action)), timer.delay);
+  }
+
+  // --- Fixed-Timestep Loop ---
+  // Timers don't fire exactly on time, so elapsed time is banked and spent in whole steps, as the
+  // browser does with frame time.
+
+  private startLoop() {
+    this.stopLoop();
+    this.lastLoopAt = performance.now();
+    this.accumulator = 0;
+    this.loop = setInterval(this.runSteps, STEP_MS);
+  }
+
+  private stopLoop() {
+    if (this.loop) clearInterval(this.loop);
+    this.loop = null;
+  }
+
+  private runSteps = () => this.guard(() => {
+    const now = performance.now();
+    const elapsed = (now - this.lastLoopAt) / STEP_MS;
+    this.lastLoopAt = now;
+    if (this.flow.phase !== 'inPlay' || this.held) {
+      this.accumulator = 0;
+      return;
+    }
+    this.accumulator += elapsed;
+    let steps = 0;
+    while (this.accumulator >= 1 && steps < MAX_STEPS_PER_FRAME) {
+      this.accumulator -= 1;
+      steps++;
+      if (!this.step()) break;
+    }
+    if (steps === MAX_STEPS_PER_FRAME) this.accumulator = 0;
+  });
+
+  // Runs timer-driven work: the loop, flow timers and grace periods. Nothing else would catch what
+  // it throws, and an uncaught error ends the server with every other room, so a failure closes
+  // just this room.
+  private guard(work: () => void) {
+    try {
+      work();
+    } catch (e) {
+      console.error(`Room ${this.code} stopped after an error:`, e);
+      this.broadcast({ type: 'error', message: 'The match stopped after a server error.' });
+      this.close();
+    }
+  }
+
+  // Advances the simulation one step. Returns false when the step decided a point and play holds.
+  private step(): boolean {
+    const simulation = this.simulation!;
+    const { player, ai } = this.seats;
+    const { state, events } = simulation.step({ playerX: player?.pendingX, aiX: ai?.pendingX });
+    SIDES.forEach(side => {
+      const seat = this.seats[side];
+      if (!seat) return;
+      seat.pendingX = undefined;
+      seat.appliedSeq = seat.receivedSeq;
+    });
+    this.stats.record(state, events);
+    this.unsentEvents.push(...events);
+    this.stepsSinceSnapshot++;
+
+    const flowAction = flowActionFor(events);
+    if (flowAction || this.stepsSinceSnapshot >= SNAPSHOT_INTERVAL) this.sendSnapshot();
+    if (!flowAction) return true;
+    this.held = true;
+    if (flowAction.type === 'matchEnd') {
+      this.endMatch(flowAction.winner);
+    } else {
+      this.dispatch(flowAction);
+    }
+    return false;
+  }
+
+  private sendSnapshot() {
+    const acks = { player: this.seats.player?.appliedSeq ?? 0, ai: this.seats.ai?.appliedSeq ?? 0 };
+    this.broadcast({ type: 'snapshot', state: this.simulation!.getState(), events: this.unsentEvents, acks });
+    this.unsentEvents = [];
+    this.stepsSinceSnapshot = 0;
+  }
+
+  // --- Messaging ---
+
+  private broadcastRoom() {
+    const players: RoomPlayers = { player: null, ai: null };
+    SIDES.forEach(side => {
+      const seat = this.seats[side];
+      if (seat) players[side] = { name: seat.name, connected: !!seat.socket, wantsRematch: seat.wantsRematch };
+    });
+    this.broadcast({ type: 'room', players });
+  }
+
+  private send(side: Side, message: ServerMessage) {
+    const socket = this.seats[side]?.socket;
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  }
+
+  private broadcast(message: ServerMessage) {
+    const text = JSON.stringify(message);
+    SIDES.forEach(side => {
+      const socket = this.seats[side]?.socket;
+      if (socket?.readyState === WebSocket.OPEN) socket.send(text);
+    });
+  }
+}
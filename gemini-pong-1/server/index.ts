@@ -0,0 +1,87 @@
+import { WebSocket, WebSocketServer } from 'ws';
+import { DEFAULT_SERVER_PORT, PROTOCOL_VERSION, ServerMessage, readClientMessage } from '../net/protocol';
+import { Lobby, Seating } from './Lobby';
+
+// --- Match Server ---
+// Hosts online matches: `npm run server`, then pick Online on the Start card. Set PORT to listen
+// somewhere other than DEFAULT_SERVER_PORT.
+
+// Connections that miss a heartbeat are dropped, so a vanished player's seat goes into its grace
+// period instead of waiting for TCP to notice.
+const HEARTBEAT_MS = 10_000;
+
+const port = Number(process.env.PORT) || DEFAULT_SERVER_PORT;
+const lobby = new Lobby();
+const server = new WebSocketServer({ port });
+const alive = new WeakMap<WebSocket, boolean>();
+
+const send = (socket: WebSocket, message: ServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+server.on('connection', socket => {
+  let seating: Seating | null = null;
+  alive.set(socket, true);
+  socket.on('pong', () => alive.set(socket, true));
+
+  socket.on('message', data => {
+    const message = readClientMessage(data.toString());
+    if (!message) {
+      send(socket, { type: 'error', message: 'The server could not read a message.' });
+      return;
+    }
+    if ('version' in message && message.version !== PROTOCOL_VERSION) {
+      send(socket, { type: 'error', message: 'This game and the match server are different versions. Reload the page.' });
+      return;
+    }
+    try {
+      switch (message.type) {
+        case 'create':
+        case 'join':
+        case 'rejoin':
+          if (seating) throw new Error('Already in a room.');
+          seating = message.type === 'create'
+            ? lobby.create(socket, message.name, message.settings)
+            : message.type === 'join'
+              ? lobby.join(socket, message.code, message.name)
+              : lobby.rejoin(socket, message.code, message.token);
+          break;
+        case 'ping':
+          send(socket, { type: 'pong', sentAt: message.sentAt });
+          break;
+        default:
+          seating?.room.handle(seating.side, message);
+          if (message.type === 'leave') seating = null;
+      }
+    } catch (e) {
+      send(socket, { type: 'error', message: e instanceof Error ? e.message : String(e) });
+    }
+  });
+
+  socket.on('close', () => {
+    seating?.room.disconnect(seating.side, socket);
+    seating = null;
+  });
+});
+
+const heartbeat = setInterval(() => {
+  server.clients.forEach(socket => {
+    if (!alive.get(socket)) {
+      socket.terminate();
+      return;
+    }
+    alive.set(socket, false);
+    socket.ping();
+  });
+}, HEARTBEAT_MS);
+
+server.on('listening', () => console.log(`Match server listening on ws://localhost:${port}`));
+server.on('close', () => clearInterval(heartbeat));
+
+const shutDown = () => {
+  console.log(`Shutting down with ${lobby.roomCount} open room(s).`);
+  server.clients.forEach(socket => socket.close());
+  server.close(() => process.exit(0));
+};
+process.on('SIGINT', shutDown);
+process.on('SIGTERM', shutDown);
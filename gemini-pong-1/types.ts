@@ -1,11 +1,12 @@
 
-export enum GameState {
-  Start,
-  Playing,
-  GameOver,
+export enum GameMode {
+  VsAI,
+  LocalVersus, // Two humans on one machine: mouse for the bottom paddle, keys for the top one
 }
 
 export type Score = {
   player: number;
   ai: number;
 };
+
+export type PlayerNames = Record<keyof Score, string>;
@@ -0,0 +1,32 @@
+import { AudioSettings, DEFAULT_AUDIO_SETTINGS } from '../audio/AudioEngine';
+import { SOUND_PACKS } from '../audio/soundPacks';
+
+// --- Saved Audio Settings ---
+// Volumes, mute and the sound pack are kept in localStorage. Values that don't check out fall
+// back to their defaults one by one.
+
+const STORAGE_KEY = 'ai-pong.audio';
+
+const isVolume = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+
+export const loadAudioSettings = (): AudioSettings => {
+  let data: Partial<AudioSettings> | null = null;
+  try {
+    data = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+  } catch {
+    // Fall through to the defaults.
+  }
+  if (!data || typeof data !== 'object') return DEFAULT_AUDIO_SETTINGS;
+  return {
+    master: isVolume(data.master) ? data.master : DEFAULT_AUDIO_SETTINGS.master,
+    effects: isVolume(data.effects) ? data.effects : DEFAULT_AUDIO_SETTINGS.effects,
+    music: isVolume(data.music) ? data.music : DEFAULT_AUDIO_SETTINGS.music,
+    muted: typeof data.muted === 'boolean' ? data.muted : DEFAULT_AUDIO_SETTINGS.muted,
+    pack: typeof data.pack === 'string' && Object.hasOwn(SOUND_PACKS, data.pack) ? data.pack : DEFAULT_AUDIO_SETTINGS.pack,
+  };
+};
+
+export const saveAudioSettings = (settings: AudioSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
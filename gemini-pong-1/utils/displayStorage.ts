@@ -0,0 +1,42 @@
+import { PARTICLE_QUALITIES } from '../components/ParticleSystem';
+import { DEFAULT_DISPLAY_SETTINGS, DisplaySettings, MOTION_PREFERENCES } from '../display/settings';
+import { COLOR_PALETTES } from '../display/palettes';
+import { THEMES } from '../display/themes';
+
+// --- Saved Display Settings ---
+// Kept in localStorage next to the audio settings, and checked the same way: each value that
+// doesn't check out falls back to its default.
+
+const STORAGE_KEY = 'ai-pong.display';
+
+export const loadDisplaySettings = (): DisplaySettings => {
+  let data: Partial<DisplaySettings> | null = null;
+  try {
+    data = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+  } catch {
+    // Fall through to the defaults.
+  }
+  if (!data || typeof data !== 'object') return DEFAULT_DISPLAY_SETTINGS;
+  return {
+    theme:
+      typeof data.theme === 'string' && Object.hasOwn(THEMES, data.theme) ? data.theme : DEFAULT_DISPLAY_SETTINGS.theme,
+    colorPalette:
+      typeof data.colorPalette === 'string' && Object.hasOwn(COLOR_PALETTES, data.colorPalette)
+        ? data.colorPalette
+        : DEFAULT_DISPLAY_SETTINGS.colorPalette,
+    motion:
+      typeof data.motion === 'string' && Object.hasOwn(MOTION_PREFERENCES, data.motion)
+        ? data.motion
+        : DEFAULT_DISPLAY_SETTINGS.motion,
+    particles:
+      typeof data.particles === 'string' && Object.hasOwn(PARTICLE_QUALITIES, data.particles)
+        ? data.particles
+        : DEFAULT_DISPLAY_SETTINGS.particles,
+    showFrameStats:
+      typeof data.showFrameStats === 'boolean' ? data.showFrameStats : DEFAULT_DISPLAY_SETTINGS.showFrameStats,
+  };
+};
+
+export const saveDisplaySettings = (settings: DisplaySettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,11 @@
+// Saves a JSON document through the browser's download mechanism.
+
+export const downloadJson = (filename: string, data: unknown) => {
+  const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
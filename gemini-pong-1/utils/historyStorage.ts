@@ -0,0 +1,79 @@
+import { MatchResult, readMatchResult, sortByDate } from '../game/history';
+
+// --- Stored Match History ---
+// Finished matches are kept in IndexedDB, one record per match keyed by its id. Matches can pile
+// up over months of play, which is more than localStorage should hold.
+
+const DB_NAME = 'ai-pong';
+const DB_VERSION = 1;
+const MATCH_STORE = 'matches';
+
+const settle = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const complete = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
+
+let database: Promise<IDBDatabase> | null = null;
+
+// Opens the database once and shares the connection; a failed open is retried on the next call.
+const openDatabase = () => {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(MATCH_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch(error => {
+    database = null;
+    throw error;
+  });
+  return database;
+};
+
+const matchStore = async (mode: IDBTransactionMode) => {
+  const db = await openDatabase();
+  return db.transaction(MATCH_STORE, mode).objectStore(MATCH_STORE);
+};
+
+// Every stored match, newest first.
+export const loadMatchHistory = async (): Promise<MatchResult[]> => {
+  const entries = await settle((await matchStore('readonly')).getAll());
+  return sortByDate(entries.flatMap(entry => {
+    try {
+      return [readMatchResult(entry)];
+    } catch {
+      return []; // Skip entries written by an incompatible version.
+    }
+  }));
+};
+
+export const saveMatchResult = async (result: MatchResult) => {
+  await settle((await matchStore('readwrite')).put(result));
+};
+
+// Adds imported matches in one transaction. A match already stored (same id) is replaced, so
+// importing the same file twice does not duplicate it. Returns the number of new matches.
+export const importMatchResults = async (results: readonly MatchResult[]) => {
+  const store = await matchStore('readwrite');
+  const keys = store.getAllKeys();
+  let added = 0;
+  // Queue the writes from the success handler so the transaction is still active.
+  keys.onsuccess = () => {
+    const existing = new Set(keys.result);
+    added = results.filter(result => !existing.has(result.id)).length;
+    results.forEach(result => store.put(result));
+  };
+  await complete(store.transaction);
+  return added;
+};
+
+export const clearMatchHistory = async () => {
+  await settle((await matchStore('readwrite')).clear());
+};
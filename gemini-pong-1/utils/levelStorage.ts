@@ -0,0 +1,40 @@
+import { LevelDefinition, readLevel } from '../game/levels';
+
+// --- Saved Levels ---
+// Layouts made in the editor are kept in localStorage, keyed by level name. Saved levels may still
+// have placement problems; they are only validated when played.
+
+const STORAGE_KEY = 'ai-pong.levels';
+
+export const loadSavedLevels = (): LevelDefinition[] => {
+  try {
+    const data = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(data)) return [];
+    return data.flatMap(entry => {
+      try {
+        return [readLevel(entry)];
+      } catch {
+        return []; // Skip entries written by an incompatible version.
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+const writeSavedLevels = (levels: LevelDefinition[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(levels));
+};
+
+// Saves the level, replacing any saved level with the same name. Returns the updated list.
+export const saveLevel = (level: LevelDefinition): LevelDefinition[] => {
+  const levels = [...loadSavedLevels().filter(saved => saved.name !== level.name), level];
+  writeSavedLevels(levels);
+  return levels;
+};
+
+export const deleteSavedLevel = (name: string): LevelDefinition[] => {
+  const levels = loadSavedLevels().filter(saved => saved.name !== name);
+  writeSavedLevels(levels);
+  return levels;
+};
@@ -0,0 +1,52 @@
+import { GameSettings, readSettings } from '../game/settings';
+
+// --- Saved Settings ---
+// The Start card's settings and the player's own presets are kept in localStorage. Both are read
+// back through `readSettings`, so a value from an older version falls back to its default.
+
+const SETTINGS_KEY = 'ai-pong.settings';
+const PRESETS_KEY = 'ai-pong.presets';
+
+export type CustomPreset = {
+  name: string;
+  settings: GameSettings;
+};
+
+const readJson = (key: string): unknown => {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+export const loadSettings = (): GameSettings => readSettings(readJson(SETTINGS_KEY)).settings;
+
+export const saveSettings = (settings: GameSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const loadCustomPresets = (): CustomPreset[] => {
+  const data = readJson(PRESETS_KEY);
+  if (!Array.isArray(data)) return [];
+  return data.flatMap(entry => (
+    entry && typeof entry.name === 'string' ? [{ name: entry.name, settings: readSettings(entry.settings).settings }] : []
+  ));
+};
+
+const writeCustomPresets = (presets: CustomPreset[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+};
+
+// Saves the preset, replacing any preset with the same name. Returns the updated list.
+export const saveCustomPreset = (preset: CustomPreset): CustomPreset[] => {
+  const presets = [...loadCustomPresets().filter(saved => saved.name !== preset.name), preset];
+  writeCustomPresets(presets);
+  return presets;
+};
+
+export const deleteCustomPreset = (name: string): CustomPreset[] => {
+  const presets = loadCustomPresets().filter(saved => saved.name !== name);
+  writeCustomPresets(presets);
+  return presets;
+};